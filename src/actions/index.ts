@@ -0,0 +1,64 @@
+import { spawn } from 'child_process';
+import { KeywordAction, WakeWordConfig } from '../config';
+import { TerminalInputInjector } from '../terminal/input-injector';
+
+const DEFAULT_ACTION: KeywordAction = { type: 'claude', pressEnter: true };
+
+/**
+ * Get the action configured for a keyword (defaults to typing into Claude Code)
+ */
+export function getKeywordAction(config: WakeWordConfig, keyword: string): KeywordAction {
+  const actions = config.actions || {};
+  return actions[keyword.toLowerCase()] || DEFAULT_ACTION;
+}
+
+/**
+ * Route a transcript to the sink configured for its keyword
+ */
+export async function runKeywordAction(action: KeywordAction, transcript: string, keyword: string): Promise<void> {
+  switch (action.type) {
+    case 'claude': {
+      const injector = new TerminalInputInjector({ terminal: 'auto' });
+      await injector.type(transcript, action.pressEnter !== false);
+      return;
+    }
+    case 'command':
+      if (!action.command) {
+        throw new Error(`Action for "${keyword}" has no command`);
+      }
+      await runShellCommand(action.command, transcript, keyword);
+      return;
+    case 'stdout':
+      process.stdout.write(transcript + '\n');
+      return;
+    default:
+      throw new Error(`Unknown action type: ${(action as KeywordAction).type}`);
+  }
+}
+
+/**
+ * Run a shell command with the transcript on stdin and in $CVL_TRANSCRIPT
+ */
+function runShellCommand(command: string, transcript: string, keyword: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('sh', ['-c', command], {
+      stdio: ['pipe', 'inherit', 'inherit'],
+      env: { ...process.env, CVL_TRANSCRIPT: transcript, CVL_KEYWORD: keyword },
+    });
+
+    proc.stdin.on('error', () => {
+      // Command may exit without reading stdin
+    });
+    proc.stdin.write(transcript + '\n');
+    proc.stdin.end();
+
+    proc.on('error', reject);
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Command exited with code ${code}: ${command}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,64 @@
+import { AudioSourceConfig } from '../config';
+import { AudioSource } from './source';
+import { MicrophoneSource } from './sources/microphone';
+import { FileSource } from './sources/file';
+import { StdinSource, FifoSource } from './sources/stream';
+
+/**
+ * Create an audio source from config
+ */
+export function createAudioSource(config: AudioSourceConfig, sampleRate: number): AudioSource {
+  switch (config.type) {
+    case 'microphone':
+      return new MicrophoneSource(sampleRate);
+    case 'file':
+      if (!config.path) {
+        throw new Error('Audio source "file" requires a path');
+      }
+      return new FileSource(config.path, sampleRate, {
+        format: config.format,
+        realtime: config.realtime,
+      });
+    case 'stdin':
+      return new StdinSource(sampleRate);
+    case 'fifo':
+      if (!config.path) {
+        throw new Error('Audio source "fifo" requires a path');
+      }
+      return new FifoSource(config.path, sampleRate);
+    default:
+      throw new Error(`Unknown audio source: ${(config as AudioSourceConfig).type}`);
+  }
+}
+
+/**
+ * Parse a source spec from the command line
+ * e.g. "mic", "stdin", "file:/tmp/command.wav", "fifo:/tmp/cvl.pcm"
+ */
+export function parseAudioSourceSpec(spec: string): AudioSourceConfig {
+  const separator = spec.indexOf(':');
+  const type = (separator === -1 ? spec : spec.slice(0, separator)).toLowerCase();
+  const sourcePath = separator === -1 ? undefined : spec.slice(separator + 1);
+
+  switch (type) {
+    case 'mic':
+    case 'microphone':
+      return { type: 'microphone' };
+    case 'stdin':
+    case '-':
+      return { type: 'stdin' };
+    case 'file':
+    case 'fifo':
+      if (!sourcePath) {
+        throw new Error(`Audio source "${type}" requires a path (e.g. ${type}:/path/to/audio)`);
+      }
+      return { type, path: sourcePath };
+    default:
+      throw new Error(`Unknown audio source "${spec}". Use mic, stdin, file:<path> or fifo:<path>`);
+  }
+}
+
+export { AudioSource, PcmAudioSource } from './source';
+export { MicrophoneSource } from './sources/microphone';
+export { FileSource } from './sources/file';
+export { StdinSource, FifoSource } from './sources/stream';
@@ -0,0 +1,54 @@
+import { EventEmitter } from 'events';
+
+/**
+ * A source of raw audio for the listener.
+ *
+ * Sources emit:
+ * - 'data' (Buffer): 16-bit signed little-endian mono PCM at the configured sample rate
+ * - 'end': the source has no more audio (files, closed pipes)
+ * - 'error' (Error): the source failed
+ *
+ * Nothing is emitted after stop(), so callers may drop their listeners.
+ */
+export interface AudioSource extends EventEmitter {
+  readonly name: string;
+  /** Whether the source can run out of audio (files, stdin) */
+  readonly finite: boolean;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Base class for PCM sources - keeps emitted chunks aligned to whole samples
+ */
+export abstract class PcmAudioSource extends EventEmitter implements AudioSource {
+  abstract readonly name: string;
+  abstract readonly finite: boolean;
+  protected readonly sampleRate: number;
+  private remainder: Buffer | null = null;
+
+  constructor(sampleRate: number) {
+    super();
+    this.sampleRate = sampleRate;
+  }
+
+  abstract start(): void;
+  abstract stop(): void;
+
+  /**
+   * Emit PCM data, carrying over a trailing odd byte to the next chunk
+   */
+  protected pushPcm(data: Buffer): void {
+    const chunk = this.remainder ? Buffer.concat([this.remainder, data]) : data;
+    const usable = chunk.length - (chunk.length % 2);
+    this.remainder = usable < chunk.length ? chunk.subarray(usable) : null;
+
+    if (usable > 0) {
+      this.emit('data', chunk.subarray(0, usable));
+    }
+  }
+
+  protected resetRemainder(): void {
+    this.remainder = null;
+  }
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import { PcmAudioSource } from '../source';
+import { decodeWav, resample } from '../../utils/wav';
+import { float32ToBuffer } from '../../utils/silence';
+
+// Chunk size used when replaying files (matches typical capture buffers)
+const CHUNK_MS = 100;
+
+export interface FileSourceOptions {
+  format?: 'wav' | 'raw';
+  realtime?: boolean;
+}
+
+/**
+ * Replays a WAV or raw PCM file as if it were captured live
+ */
+export class FileSource extends PcmAudioSource {
+  readonly name = 'file';
+  readonly finite = true;
+  private filePath: string;
+  private options: FileSourceOptions;
+  private timer: NodeJS.Timeout | NodeJS.Immediate | null = null;
+  private running = false;
+
+  constructor(filePath: string, sampleRate: number, options: FileSourceOptions = {}) {
+    super(sampleRate);
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  start(): void {
+    this.running = true;
+
+    let pcm: Buffer;
+    try {
+      pcm = this.readPcm();
+    } catch (error) {
+      // Defer so listeners attached after start() still receive it - there is no audio to wait for
+      this.timer = setImmediate(() => {
+        this.running = false;
+        this.timer = null;
+        this.emit('error', error);
+        this.emit('end');
+      });
+      return;
+    }
+
+    const chunkBytes = Math.floor((this.sampleRate * CHUNK_MS) / 1000) * 2;
+    let offset = 0;
+
+    const next = (): void => {
+      if (!this.running) return;
+
+      if (offset >= pcm.length) {
+        this.running = false;
+        this.timer = null;
+        this.emit('end');
+        return;
+      }
+
+      this.pushPcm(pcm.subarray(offset, offset + chunkBytes));
+      offset += chunkBytes;
+
+      this.timer = this.options.realtime ? setTimeout(next, CHUNK_MS) : setImmediate(next);
+    };
+
+    this.timer = setImmediate(next);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer as NodeJS.Timeout);
+      clearImmediate(this.timer as NodeJS.Immediate);
+      this.timer = null;
+    }
+    this.resetRemainder();
+  }
+
+  private readPcm(): Buffer {
+    const buffer = fs.readFileSync(this.filePath);
+    const isWav = this.options.format
+      ? this.options.format === 'wav'
+      : buffer.toString('ascii', 0, 4) === 'RIFF';
+
+    if (!isWav) {
+      return buffer;
+    }
+
+    // Any WAV layout is converted to 16-bit mono at the listener's rate
+    const decoded = decodeWav(buffer);
+    return float32ToBuffer(resample(decoded.samples, decoded.sampleRate, this.sampleRate));
+  }
+}
@@ -0,0 +1,96 @@
+import { spawn, execSync } from 'child_process';
+import { getPlatformCapabilities } from '../../platform';
+import { PcmAudioSource } from '../source';
+
+/**
+ * Microphone capture via sox (macOS) or arecord (Linux)
+ */
+export class MicrophoneSource extends PcmAudioSource {
+  readonly name = 'microphone';
+  readonly finite = false;
+  private recordingProcess: ReturnType<typeof spawn> | null = null;
+
+  start(): void {
+    const caps = getPlatformCapabilities();
+    const sampleRate = this.sampleRate;
+
+    // Use sox on macOS, arecord on Linux
+    if (caps.platform === 'darwin') {
+      // Check if sox is installed
+      try {
+        execSync('which rec', { stdio: 'ignore' });
+      } catch {
+        console.error('');
+        console.error('  Wake word detection requires sox for audio capture.');
+        console.error('  Install it with: brew install sox');
+        console.error('');
+        return;
+      }
+
+      // Use sox (rec command) for audio capture
+      this.recordingProcess = spawn(
+        'rec',
+        [
+          '-q', // Quiet mode
+          '-t',
+          'raw', // Raw audio format
+          '-b',
+          '16', // 16-bit
+          '-e',
+          'signed-integer',
+          '-c',
+          '1', // Mono
+          '-r',
+          String(sampleRate),
+          '-', // Output to stdout
+        ],
+        { stdio: ['ignore', 'pipe', 'ignore'] }
+      );
+    } else if (caps.platform === 'linux') {
+      // Check if arecord is installed
+      try {
+        execSync('which arecord', { stdio: 'ignore' });
+      } catch {
+        console.error('');
+        console.error('  Wake word detection requires alsa-utils for audio capture.');
+        console.error('  Install it with: sudo apt install alsa-utils');
+        console.error('');
+        return;
+      }
+
+      // Use arecord for audio capture
+      this.recordingProcess = spawn(
+        'arecord',
+        ['-q', '-f', 'S16_LE', '-c', '1', '-r', String(sampleRate), '-t', 'raw', '-'],
+        { stdio: ['ignore', 'pipe', 'ignore'] }
+      );
+    } else {
+      console.error('Audio capture not supported on this platform');
+      return;
+    }
+
+    if (!this.recordingProcess.stdout) {
+      console.error('Failed to start audio capture');
+      return;
+    }
+
+    this.recordingProcess.stdout.on('data', (data: Buffer) => this.pushPcm(data));
+
+    this.recordingProcess.on('error', (err) => {
+      this.emit('error', err);
+    });
+  }
+
+  stop(): void {
+    if (this.recordingProcess) {
+      const proc = this.recordingProcess;
+      this.recordingProcess = null;
+      proc.stdout?.removeAllListeners('data');
+      proc.removeAllListeners('error');
+      // A failure while the recorder shuts down is of no interest, but must not go unhandled
+      proc.on('error', () => {});
+      proc.kill();
+    }
+    this.resetRemainder();
+  }
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { PcmAudioSource } from '../source';
+
+// Largest WAV header we are willing to buffer while looking for the data chunk
+const MAX_WAV_HEADER = 64 * 1024;
+
+/**
+ * Reads PCM from a byte stream (stdin or a named pipe).
+ *
+ * Input is expected to be raw 16-bit mono PCM at the configured sample rate.
+ * A leading WAV header is detected and skipped.
+ */
+abstract class StreamSource extends PcmAudioSource {
+  private input: Readable | null = null;
+  private header: Buffer | null = null;
+  private inHeader = true;
+
+  protected abstract openStream(): Readable;
+
+  /**
+   * Called when the input stream ends - default is to end the source
+   */
+  protected onStreamEnd(): void {
+    this.input = null;
+    this.emit('end');
+  }
+
+  start(): void {
+    this.inHeader = true;
+    this.header = null;
+
+    const input = this.openStream();
+    this.input = input;
+
+    input.on('data', (data: Buffer) => this.handleData(data));
+    input.on('end', () => {
+      if (this.input === input) {
+        this.onStreamEnd();
+      }
+    });
+    input.on('error', (err) => this.emit('error', err));
+  }
+
+  stop(): void {
+    const input = this.input;
+    this.input = null;
+    if (input) {
+      input.removeAllListeners('data');
+      input.removeAllListeners('end');
+      input.removeAllListeners('error');
+      // Closing may still fail (e.g. a FIFO that was removed) - not an error of the stopped source
+      input.on('error', () => {});
+      this.closeStream(input);
+    }
+    this.resetRemainder();
+  }
+
+  protected closeStream(input: Readable): void {
+    input.destroy();
+  }
+
+  private handleData(data: Buffer): void {
+    if (!this.inHeader) {
+      this.pushPcm(data);
+      return;
+    }
+
+    const pending = this.header ? Buffer.concat([this.header, data]) : data;
+
+    if (pending.length < 4) {
+      this.header = pending;
+      return;
+    }
+
+    if (pending.toString('ascii', 0, 4) !== 'RIFF') {
+      this.inHeader = false;
+      this.header = null;
+      this.pushPcm(pending);
+      return;
+    }
+
+    const dataOffset = findWavDataOffset(pending);
+    if (dataOffset === null) {
+      if (pending.length > MAX_WAV_HEADER) {
+        this.emit('error', new Error(`${this.name}: WAV header without data chunk`));
+        this.inHeader = false;
+        this.header = null;
+        return;
+      }
+      this.header = pending;
+      return;
+    }
+
+    this.inHeader = false;
+    this.header = null;
+    this.pushPcm(pending.subarray(dataOffset));
+  }
+}
+
+/**
+ * Find where PCM samples start in a (possibly partial) WAV header
+ */
+function findWavDataOffset(buffer: Buffer): number | null {
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === 'data') {
+      return offset + 8;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Audio piped into the process on stdin
+ */
+export class StdinSource extends StreamSource {
+  readonly name = 'stdin';
+  readonly finite = true;
+
+  protected openStream(): Readable {
+    return process.stdin;
+  }
+
+  protected closeStream(input: Readable): void {
+    // Never destroy process.stdin - just stop reading from it
+    input.pause();
+  }
+}
+
+/**
+ * Audio written to a named pipe (FIFO).
+ *
+ * The pipe is reopened whenever a writer closes it, so several
+ * recordings can be fed in one after another.
+ */
+export class FifoSource extends StreamSource {
+  readonly name = 'fifo';
+  readonly finite = false;
+  private fifoPath: string;
+  private running = false;
+
+  constructor(fifoPath: string, sampleRate: number) {
+    super(sampleRate);
+    this.fifoPath = fifoPath;
+  }
+
+  start(): void {
+    this.running = true;
+    if (!fs.existsSync(this.fifoPath)) {
+      setImmediate(() => {
+        if (this.running) {
+          this.emit('error', new Error(`FIFO not found: ${this.fifoPath}`));
+        }
+      });
+      return;
+    }
+    super.start();
+  }
+
+  stop(): void {
+    this.running = false;
+    super.stop();
+  }
+
+  protected openStream(): Readable {
+    return fs.createReadStream(this.fifoPath);
+  }
+
+  protected onStreamEnd(): void {
+    // Writer closed the pipe - wait for the next one
+    if (this.running) {
+      this.resetRemainder();
+      super.start();
+    }
+  }
+}
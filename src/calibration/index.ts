@@ -0,0 +1,200 @@
+/**
+ * Noise floor calibration - measures ambient noise and speech level
+ * to recommend silence detection settings
+ */
+
+import { AudioSourceConfig } from '../config';
+import { createAudioSource } from '../audio';
+import { calculateAmplitude } from '../utils/silence';
+
+// Analysis frame length
+const FRAME_MS = 100;
+
+// Bounds for recommended values
+const MIN_SILENCE_AMPLITUDE = 50;
+const MIN_SILENCE_THRESHOLD = 1000;
+const MAX_SILENCE_THRESHOLD = 4000;
+
+// Extra silence on top of the longest natural pause in the speech sample
+const PAUSE_MARGIN_MS = 700;
+
+export interface CalibrationResult {
+  noiseFloor: number;
+  speechLevel: number;
+  // Speech level relative to noise floor
+  ratio: number;
+  silenceAmplitude: number;
+  silenceThreshold: number;
+  // False when speech was not clearly louder than the background
+  reliable: boolean;
+}
+
+/**
+ * Capture audio from a source for a fixed duration
+ * @returns Raw PCM (Int16 mono)
+ */
+export function captureAudio(source: AudioSourceConfig, sampleRate: number, durationMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const audio = createAudioSource(source, sampleRate);
+    const targetBytes = Math.floor((sampleRate * durationMs) / 1000) * 2;
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let done = false;
+
+    const finish = (error?: Error) => {
+      if (done) return;
+      done = true;
+      audio.removeAllListeners();
+      audio.stop();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Buffer.concat(chunks).subarray(0, targetBytes));
+      }
+    };
+
+    audio.on('data', (data: Buffer) => {
+      chunks.push(data);
+      received += data.length;
+      if (received >= targetBytes) finish();
+    });
+    audio.on('end', () => finish());
+    audio.on('error', (err: Error) => finish(err));
+
+    audio.start();
+  });
+}
+
+/**
+ * Split PCM into fixed-length frames and measure each frame's amplitude
+ */
+export function frameAmplitudes(pcm: Buffer, sampleRate: number): number[] {
+  const frameBytes = Math.floor((sampleRate * FRAME_MS) / 1000) * 2;
+  const amplitudes: number[] = [];
+
+  for (let offset = 0; offset + frameBytes <= pcm.length; offset += frameBytes) {
+    amplitudes.push(calculateAmplitude(pcm.subarray(offset, offset + frameBytes)));
+  }
+
+  return amplitudes;
+}
+
+/**
+ * Compute recommended silence settings from an ambient noise sample and a speech sample
+ * @param noise - Frame amplitudes while the user is quiet
+ * @param speech - Frame amplitudes while the user speaks a typical command
+ */
+export function computeCalibration(noise: number[], speech: number[]): CalibrationResult {
+  if (noise.length === 0 || speech.length === 0) {
+    throw new Error('Not enough audio to calibrate');
+  }
+
+  // Loud end of the background noise, ignoring rare clicks
+  const noiseFloor = percentile(noise, 0.9);
+
+  // Typical level of the voiced part of the speech sample
+  const voiced = speech.filter((a) => a > noiseFloor);
+  const speechLevel = voiced.length > 0 ? percentile(voiced, 0.5) : percentile(speech, 0.9);
+
+  const ratio = noiseFloor > 0 ? speechLevel / noiseFloor : Infinity;
+
+  // A quarter of the way from noise to speech (on a log scale) keeps
+  // quiet word endings above the line and background noise below it
+  const silenceAmplitude = Math.max(
+    MIN_SILENCE_AMPLITUDE,
+    Math.round(Math.exp(Math.log(Math.max(noiseFloor, 1)) * 0.75 + Math.log(Math.max(speechLevel, 1)) * 0.25))
+  );
+
+  const longestPause = longestRun(speech, silenceAmplitude) * FRAME_MS;
+  const silenceThreshold = clamp(
+    Math.round((longestPause + PAUSE_MARGIN_MS) / 100) * 100,
+    MIN_SILENCE_THRESHOLD,
+    MAX_SILENCE_THRESHOLD
+  );
+
+  return {
+    noiseFloor: Math.round(noiseFloor),
+    speechLevel: Math.round(speechLevel),
+    ratio,
+    silenceAmplitude,
+    silenceThreshold,
+    reliable: ratio >= 2,
+  };
+}
+
+/**
+ * Tracks the background noise floor while listening, so the silence
+ * amplitude can follow a fan or air conditioning being switched on
+ */
+export class NoiseFloorTracker {
+  private floor: number | null = null;
+  private baseAmplitude: number;
+
+  /**
+   * @param baseAmplitude - Configured silence amplitude (never goes below this)
+   */
+  constructor(baseAmplitude: number) {
+    this.baseAmplitude = baseAmplitude;
+  }
+
+  /**
+   * Feed background audio (not command audio)
+   */
+  update(data: Buffer): void {
+    const amplitude = calculateAmplitude(data);
+    if (!Number.isFinite(amplitude)) return;
+
+    if (this.floor === null) {
+      this.floor = amplitude;
+      return;
+    }
+
+    // Fall quickly, rise slowly - speech bursts barely move the floor
+    const rate = amplitude < this.floor ? 0.2 : 0.01;
+    this.floor += (amplitude - this.floor) * rate;
+  }
+
+  getNoiseFloor(): number | null {
+    return this.floor === null ? null : Math.round(this.floor);
+  }
+
+  /**
+   * Silence amplitude to use for the next command
+   */
+  getSilenceAmplitude(): number {
+    if (this.floor === null) {
+      return this.baseAmplitude;
+    }
+    return Math.max(this.baseAmplitude, Math.round(this.floor * 2));
+  }
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Longest run of frames below a threshold, between the first and last loud frame
+ */
+function longestRun(amplitudes: number[], threshold: number): number {
+  const first = amplitudes.findIndex((a) => a >= threshold);
+  if (first === -1) return 0;
+
+  let last = amplitudes.length - 1;
+  while (last > first && amplitudes[last] < threshold) last--;
+
+  let longest = 0;
+  let current = 0;
+  for (let i = first; i <= last; i++) {
+    current = amplitudes[i] < threshold ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return longest;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
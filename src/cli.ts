@@ -8,16 +8,51 @@ import * as readline from 'readline';
 import {
   startListener,
   loadConfig,
+  saveConfig,
   getConfigPath,
   getConfigValue,
   setConfigValue,
   resetConfig,
   checkModelsInstalled,
   downloadAllModels,
+  downloadSttModel,
   getModelStatus,
   getPlatformSummary,
   getInstallInstructions,
   getConfigDir,
+  parseAudioSourceSpec,
+  getActiveKeywords,
+  buildKeyword,
+  captureAudio,
+  frameAmplitudes,
+  computeCalibration,
+  STTManager,
+  SHERPA_MODELS,
+  listModels,
+  readAudioFile,
+  readControlEndpoint,
+  controlRequest,
+  ControlEndpoint,
+  formatEngineStatus,
+  readListenerState,
+  loadHistoryUtterance,
+  retryUtterance,
+  createFormattingPipeline,
+  formatTranscript,
+  loadVocabulary,
+  applyVocabulary,
+  addVocabularyTerm,
+  removeVocabularyTerm,
+  getVocabularyPath,
+  readHistory,
+  findHistoryEntry,
+  searchHistory,
+  exportHistory,
+  getEntryAudioPath,
+  pruneAudio,
+  HistoryEntry,
+  getKeywordAction,
+  sendText,
 } from './index';
 
 const program = new Command();
@@ -58,6 +93,9 @@ async function askQuestion(question: string): Promise<boolean> {
   });
 }
 
+// Milliseconds `start` waits for the background listener to come up
+const DAEMON_START_TIMEOUT = 60000;
+
 function getPidFile(): string {
   return path.join(getConfigDir(), 'daemon.pid');
 }
@@ -80,6 +118,55 @@ function isRunning(): boolean {
   }
 }
 
+/**
+ * Start the listener in the background and wait until it is listening or has exited
+ * @returns Whether the listener came up - the log of a failed start has been printed
+ */
+async function startDaemon(args: string[]): Promise<boolean> {
+  const configDir = getConfigDir();
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true });
+  }
+
+  const logFile = getLogFile();
+  const logStart = fs.existsSync(logFile) ? fs.statSync(logFile).size : 0;
+  const out = fs.openSync(logFile, 'a');
+  const err = fs.openSync(logFile, 'a');
+
+  const scriptPath = path.join(__dirname, 'cli.js');
+  const child = spawn('node', [scriptPath, 'start', '-f', ...args], {
+    detached: true,
+    stdio: ['ignore', out, err],
+    env: { ...process.env, CVL_DAEMON: '1' }
+  });
+  fs.closeSync(out);
+  fs.closeSync(err);
+
+  let exitCode: number | null = null;
+  child.on('exit', (code) => {
+    exitCode = code ?? 1;
+  });
+  child.unref();
+
+  // Loading models can take a while; the listener writes its state file once it is listening
+  const deadline = Date.now() + DAEMON_START_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (exitCode !== null) {
+      console.error(`Claude Voice Light failed to start (exit code ${exitCode}):`);
+      const log = fs.readFileSync(logFile, 'utf-8').slice(logStart).trim();
+      log.split('\n').forEach((line) => console.error(`  ${line}`));
+      return false;
+    }
+    if (readListenerState()?.pid === child.pid) {
+      return true;
+    }
+    await new Promise(r => setTimeout(r, 200));
+  }
+
+  console.log(`Claude Voice Light is still starting. Check ${logFile}`);
+  return true;
+}
+
 function getDaemonPid(): number | null {
   const pidFile = getPidFile();
   if (!fs.existsSync(pidFile)) return null;
@@ -273,7 +360,7 @@ program
     console.log(`  STT model: ${modelStatus.stt ? '[OK]' : '[X] not installed'}`);
     console.log('');
 
-    if (!modelStatus.kws || !modelStatus.stt) {
+    if (!modelStatus.kws || !modelStatus.stt || !modelStatus.streaming) {
       const shouldDownload = options.yes || await askQuestion('Download missing models? [Y/n] ');
 
       if (shouldDownload) {
@@ -303,7 +390,25 @@ program
   .command('start')
   .description('Start the voice listener (background by default)')
   .option('-f, --foreground', 'Run in foreground')
+  .option('-s, --source <spec>', 'Audio source: mic, stdin, file:<path> or fifo:<path>')
+  .option('--realtime', 'Replay file sources at real-time speed')
   .action(async (options) => {
+    let source: ReturnType<typeof parseAudioSourceSpec> | undefined;
+    try {
+      source = options.source ? parseAudioSourceSpec(options.source) : undefined;
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+    if (source && options.realtime) {
+      source.realtime = true;
+    }
+
+    // Audio on stdin only reaches a foreground listener
+    if (source?.type === 'stdin') {
+      options.foreground = true;
+    }
+
     if (options.foreground) {
       if (process.env.CVL_DAEMON === '1') {
         const configDir = getConfigDir();
@@ -314,7 +419,7 @@ program
       }
 
       try {
-        await startListener();
+        await startListener({ source });
       } catch (error) {
         console.error('Failed to start:', error);
         process.exit(1);
@@ -325,28 +430,20 @@ program
         return;
       }
 
-      const configDir = getConfigDir();
-      if (!fs.existsSync(configDir)) {
-        fs.mkdirSync(configDir, { recursive: true });
+      const args: string[] = [];
+      if (options.source) {
+        args.push('--source', options.source);
+      }
+      if (options.realtime) {
+        args.push('--realtime');
       }
 
-      const logFile = getLogFile();
-      const out = fs.openSync(logFile, 'a');
-      const err = fs.openSync(logFile, 'a');
-
-      const scriptPath = path.join(__dirname, 'cli.js');
-
-      const child = spawn('node', [scriptPath, 'start', '-f'], {
-        detached: true,
-        stdio: ['ignore', out, err],
-        env: { ...process.env, CVL_DAEMON: '1' }
-      });
-
-      child.unref();
-      await new Promise(r => setTimeout(r, 500));
+      if (!(await startDaemon(args))) {
+        process.exit(1);
+      }
 
       console.log('Claude Voice Light started in background.');
-      console.log(`Log: ${logFile}`);
+      console.log(`Log: ${getLogFile()}`);
       console.log('');
       console.log('Use "claude-voice-light stop" to stop.');
     }
@@ -388,26 +485,10 @@ program
       await new Promise(r => setTimeout(r, 500));
     }
 
-    const configDir = getConfigDir();
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+    if (!(await startDaemon([]))) {
+      process.exit(1);
     }
 
-    const logFile = getLogFile();
-    const out = fs.openSync(logFile, 'a');
-    const err = fs.openSync(logFile, 'a');
-
-    const scriptPath = path.join(__dirname, 'cli.js');
-
-    const child = spawn('node', [scriptPath, 'start', '-f'], {
-      detached: true,
-      stdio: ['ignore', out, err],
-      env: { ...process.env, CVL_DAEMON: '1' }
-    });
-
-    child.unref();
-    await new Promise(r => setTimeout(r, 500));
-
     console.log('Restarted.');
   });
 
@@ -428,17 +509,45 @@ program
     console.log('');
 
     console.log(`Status: ${running ? `running (PID: ${pid})` : 'stopped'}`);
+    const endpoint = running ? readControlEndpoint() : null;
+    if (endpoint) {
+      console.log(`Control API: ${endpoint.socket ? `unix:${endpoint.socket}` : endpoint.url}`);
+    }
     console.log('');
 
     console.log('Config:');
-    console.log(`  Wake word: "${config.wakeWord.keyword}"`);
+    console.log(`  Wake word: ${getActiveKeywords(config.wakeWord).map((k) => `"${k}"`).join(', ')}`);
     console.log(`  Language: ${config.stt.language}`);
+    if (config.stt.provider !== 'sherpa-onnx') {
+      console.log(`  STT provider: ${config.stt.provider}`);
+    }
     console.log(`  STT model: ${config.stt.model}`);
+    if (config.stt.fallback.length > 0) {
+      console.log(`  STT fallback: ${config.stt.fallback.join(', ')}`);
+    }
+    if (config.stt.streaming) {
+      console.log(`  Streaming model: ${config.stt.streamingModel}`);
+    }
     console.log('');
 
+    // What the listener actually loaded, which may differ from the files on disk
+    if (running) {
+      console.log('STT engines:');
+      const state = readListenerState();
+      if (state?.pid === pid) {
+        state.engines.forEach((engine) => formatEngineStatus(engine).forEach((line) => console.log(`  ${line}`)));
+      } else {
+        console.log('  unknown (still starting)');
+      }
+      console.log('');
+    }
+
     console.log('Models:');
     console.log(`  Keyword spotter: ${modelStatus.kws ? 'OK' : 'NOT INSTALLED'}`);
     console.log(`  STT: ${modelStatus.stt ? 'OK' : 'NOT INSTALLED'}`);
+    if (config.stt.streaming) {
+      console.log(`  Streaming STT: ${modelStatus.streaming ? 'OK' : 'NOT INSTALLED'}`);
+    }
     console.log('');
 
     if (instructions.length > 0) {
@@ -447,11 +556,318 @@ program
       console.log('');
     }
 
-    if (!modelStatus.kws || !modelStatus.stt) {
+    if (!modelStatus.kws || !modelStatus.stt || !modelStatus.streaming) {
       console.log('Run: claude-voice-light setup');
     }
   });
 
+/**
+ * Control API of the running listener, or null if it is not reachable
+ */
+function getLiveControlEndpoint(): ControlEndpoint | null {
+  const endpoint = readControlEndpoint();
+  if (!endpoint) return null;
+  try {
+    process.kill(endpoint.pid, 0);
+    return endpoint;
+  } catch {
+    // Stale endpoint from a listener that crashed
+    return null;
+  }
+}
+
+// Push-to-talk command
+program
+  .command('ptt')
+  .description('Push-to-talk: record a command without the wake word (bind this to a hotkey)')
+  .option('-k, --keyword <keyword>', 'Keyword whose action handles the transcript')
+  .option('--hold', 'Record until a key is pressed or this process is stopped (needs the control API)')
+  .option('--stop', 'Stop a push-to-talk recording (needs the control API)')
+  .action(async (options) => {
+    const endpoint = getLiveControlEndpoint();
+
+    if (!endpoint) {
+      // Without the control API, toggle recording with a signal
+      const pid = getDaemonPid();
+      if (options.hold || options.stop) {
+        console.error('--hold and --stop need the control API: claude-voice-light config set control.enabled true');
+        process.exit(1);
+      }
+      if (!pid || !isRunning()) {
+        console.error('Not running. Start with: claude-voice-light start');
+        process.exit(1);
+      }
+      process.kill(pid, 'SIGUSR1');
+      return;
+    }
+
+    const send = async (route: string, body?: unknown) => {
+      const res = await controlRequest(endpoint, 'POST', route, body);
+      if (res.status !== 200) {
+        throw new Error(res.body.error || `HTTP ${res.status}`);
+      }
+      return res.body;
+    };
+
+    try {
+      if (options.stop) {
+        const res = await send('/release');
+        console.log(res.stopped ? 'Stopped recording.' : 'Not recording.');
+        return;
+      }
+
+      if (!options.hold) {
+        const res = await send('/trigger', { keyword: options.keyword });
+        console.log(res.recording ? 'Recording...' : 'Stopped recording.');
+        return;
+      }
+
+      await send('/trigger', { keyword: options.keyword, hold: true });
+    } catch (error) {
+      console.error(`Push-to-talk failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    // Hold mode: release on a key press, end of input, or termination
+    console.log('Recording... press any key to stop.');
+    await new Promise<void>((resolve) => {
+      // Replace the listener's shutdown handlers so the release is still sent
+      process.removeAllListeners('SIGINT');
+      process.removeAllListeners('SIGTERM');
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+      if (process.stdin.isTTY) {
+        process.stdin.setRawMode(true);
+      }
+      process.stdin.once('data', () => resolve());
+      process.stdin.once('end', () => resolve());
+      process.stdin.resume();
+    });
+
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(false);
+    }
+    process.stdin.pause();
+
+    try {
+      await send('/release');
+      console.log('Stopped recording.');
+    } catch (error) {
+      console.error(`Push-to-talk failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  });
+
+// Retry command
+program
+  .command('retry [id]')
+  .description('Re-transcribe the last command (or a history entry) with a larger model and type it again')
+  .option('-m, --model <model>', 'Model to use (default: stt.retry.model)')
+  .option('--print', 'Only print the new transcript')
+  .action(async (id: string | undefined, options) => {
+    const entryId = id !== undefined ? parseInt(id.replace(/^#/, ''), 10) : undefined;
+    if (entryId !== undefined && isNaN(entryId)) {
+      console.error(`Invalid history id: ${id}`);
+      process.exit(1);
+    }
+
+    // The running listener knows the last command even without kept audio
+    const endpoint = options.print ? null : getLiveControlEndpoint();
+    if (endpoint) {
+      const res = await controlRequest(endpoint, 'POST', '/retry', { id: entryId, model: options.model });
+      if (res.status !== 200) {
+        console.error(`Retry failed: ${res.body.error || `HTTP ${res.status}`}`);
+        process.exit(1);
+      }
+      console.log(`[${res.body.model}] ${res.body.output}`);
+      return;
+    }
+
+    const config = loadConfig();
+    try {
+      const utterance = loadHistoryUtterance(entryId);
+      const stt = new STTManager({ ...config.stt, retry: { ...config.stt.retry, warm: false } });
+      const pipeline = (language: string) =>
+        config.formatting.enabled ? createFormattingPipeline(config.formatting, language) : [];
+      await retryUtterance(utterance, stt, config, { model: options.model, pipeline, dryRun: options.print });
+    } catch (error) {
+      console.error(`Retry failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// Calibrate command
+program
+  .command('calibrate')
+  .description('Measure background noise and your voice to tune silence detection')
+  .option('--noise <seconds>', 'Seconds of ambient noise to record', '3')
+  .option('--speech <seconds>', 'Seconds of speech to record', '5')
+  .option('-s, --source <spec>', 'Audio source: mic, stdin or fifo:<path>', 'mic')
+  .option('--noise-file <path>', 'Recording of the background noise (WAV or raw PCM) instead of capturing it')
+  .option('--speech-file <path>', 'Recording of a spoken command (WAV or raw PCM) instead of capturing it')
+  .option('-y, --yes', 'Save recommended values without asking')
+  .action(async (options) => {
+    const config = loadConfig();
+    const sampleRate = config.recording.sampleRate;
+    const noiseMs = parseFloat(options.noise) * 1000;
+    const speechMs = parseFloat(options.speech) * 1000;
+
+    let source: ReturnType<typeof parseAudioSourceSpec>;
+    try {
+      source = parseAudioSourceSpec(options.source);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+    // Both captures would read the same file from the start
+    if (source.type === 'file') {
+      console.error('A file source cannot hold both recordings. Use --noise-file and --speech-file instead.');
+      process.exit(1);
+    }
+    if (!!options.noiseFile !== !!options.speechFile) {
+      console.error('--noise-file and --speech-file must be given together.');
+      process.exit(1);
+    }
+    const files = !!options.noiseFile;
+    const noiseSource: typeof source = files ? { type: 'file', path: options.noiseFile } : source;
+    const speechSource: typeof source = files ? { type: 'file', path: options.speechFile } : source;
+
+    console.log('');
+    console.log('Claude Voice Light - Calibration');
+    console.log('================================');
+    console.log('');
+
+    let noise: number[];
+    let speech: number[];
+    try {
+      console.log(files ? `Noise: ${options.noiseFile}` : `Stay quiet for ${options.noise} seconds...`);
+      noise = frameAmplitudes(await captureAudio(noiseSource, sampleRate, noiseMs), sampleRate);
+
+      console.log(
+        files ? `Speech: ${options.speechFile}` : `Now speak a typical command for ${options.speech} seconds...`
+      );
+      speech = frameAmplitudes(await captureAudio(speechSource, sampleRate, speechMs), sampleRate);
+    } catch (error) {
+      console.error('Recording failed:', (error as Error).message);
+      process.exit(1);
+    }
+
+    let result: ReturnType<typeof computeCalibration>;
+    try {
+      result = computeCalibration(noise, speech);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+
+    console.log('');
+    console.log(`Noise floor:  ${result.noiseFloor}`);
+    console.log(`Speech level: ${result.speechLevel}`);
+    console.log('');
+    console.log('Recommended:');
+    console.log(`  recording.silenceAmplitude = ${result.silenceAmplitude} (current: ${config.recording.silenceAmplitude})`);
+    console.log(`  recording.silenceThreshold = ${result.silenceThreshold} (current: ${config.recording.silenceThreshold})`);
+    console.log('');
+
+    if (!result.reliable) {
+      console.log('Your voice was not clearly louder than the background.');
+      console.log('Move closer to the microphone or consider: config set recording.endpointer=vad');
+      console.log('');
+      if (!options.yes) {
+        return;
+      }
+    }
+
+    const shouldSave = options.yes || await askQuestion('Save to config? [Y/n] ');
+    if (shouldSave) {
+      saveConfig({
+        recording: {
+          ...config.recording,
+          silenceAmplitude: result.silenceAmplitude,
+          silenceThreshold: result.silenceThreshold,
+        },
+      });
+      console.log('Saved. Restart to apply: claude-voice-light restart');
+    }
+  });
+
+// Transcribe command
+program
+  .command('transcribe <files...>')
+  .description('Transcribe audio files with the configured model')
+  .option('-m, --model <model>', 'STT model to use')
+  .option('-p, --provider <name>', 'STT provider to use (sherpa-onnx, whisper-cpp, openai, ...)')
+  .option('-l, --language <lang>', 'Language code')
+  .option('--json', 'Output one JSON object per file')
+  .option('-f, --format', 'Apply vocabulary and transcript formatting (spoken symbols, identifiers)')
+  .action(async (files: string[], options) => {
+    const config = loadConfig();
+    const model = options.model || config.stt.model;
+    const language = options.language || config.stt.language;
+    const provider = options.provider || config.stt.provider;
+
+    if (provider === 'sherpa-onnx' && !(model in SHERPA_MODELS)) {
+      console.error(`Unknown model: ${model}`);
+      console.error(`Available: ${Object.keys(SHERPA_MODELS).join(', ')}`);
+      process.exit(1);
+    }
+
+    let stt: STTManager;
+    try {
+      stt = new STTManager({
+        ...config.stt,
+        provider,
+        model,
+        language,
+        streaming: false,
+      });
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+    const pipeline = options.format ? createFormattingPipeline(config.formatting, language) : [];
+
+    if (!(await stt.initialize())) {
+      console.error('Speech recognition could not start:');
+      stt.getStatus().forEach((engine) => formatEngineStatus(engine).forEach((line) => console.error(`  ${line}`)));
+      process.exit(1);
+    }
+
+    let failed = 0;
+
+    for (const file of files) {
+      try {
+        const { samples, sampleRate } = readAudioFile(file, 16000);
+        const started = Date.now();
+        let text = await stt.transcribeAudio(samples, sampleRate);
+        if (options.format) {
+          text = formatTranscript(applyVocabulary(text, loadVocabulary(), config.vocabulary), pipeline);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            file,
+            text,
+            duration: samples.length / sampleRate,
+            latency: (Date.now() - started) / 1000,
+          }));
+        } else if (files.length === 1) {
+          console.log(text);
+        } else {
+          console.log(`${file}: ${text}`);
+        }
+      } catch (error) {
+        failed++;
+        console.error(`${file}: ${(error as Error).message}`);
+      }
+    }
+
+    if (failed > 0) {
+      process.exit(1);
+    }
+  });
+
 // Logs command
 program
   .command('logs')
@@ -535,10 +951,15 @@ const modelCmd = program
   .description('Manage models');
 
 modelCmd
-  .command('download')
-  .description('Download required models')
-  .action(async () => {
+  .command('download [model]')
+  .description('Download required models, or one model from `model list`')
+  .action(async (model?: string) => {
     try {
+      if (model) {
+        await downloadSttModel(model);
+        console.log(`Use it with: claude-voice-light config set stt.model=${model}`);
+        return;
+      }
       await downloadAllModels();
     } catch (error) {
       console.error('Download failed:', error);
@@ -546,6 +967,20 @@ modelCmd
     }
   });
 
+modelCmd
+  .command('list')
+  .description('List offline STT models')
+  .action(() => {
+    const current = loadConfig().stt.model;
+    for (const model of listModels()) {
+      const mark = model.id === current ? '*' : ' ';
+      const state = model.installed ? 'installed' : '';
+      const languages =
+        model.languages.length > 6 ? `${model.languages.slice(0, 6).join(', ')}, ...` : model.languages.join(', ');
+      console.log(`${mark} ${model.id.padEnd(24)} ${model.family.padEnd(16)} ${state.padEnd(10)} ${languages}`);
+    }
+  });
+
 modelCmd
   .command('status')
   .description('Show model status')
@@ -557,4 +992,302 @@ modelCmd.action(() => {
   console.log(getModelStatus());
 });
 
+// Keyword commands
+const keywordCmd = program
+  .command('keyword')
+  .description('Manage wake words');
+
+keywordCmd
+  .command('add <phrase>')
+  .description('Add a custom wake word (tokenized with the installed keyword model)')
+  .option('-n, --variants <n>', 'Maximum number of token variants', '6')
+  .option('-a, --activate', 'Listen for the new wake word alongside the current ones')
+  .action((phrase: string, options) => {
+    const maxVariants = Number(options.variants);
+    if (!Number.isInteger(maxVariants) || maxVariants < 1) {
+      console.error('Variants must be a positive integer.');
+      process.exit(1);
+    }
+
+    let result: ReturnType<typeof buildKeyword>;
+    try {
+      result = buildKeyword(phrase, maxVariants);
+    } catch (error) {
+      console.error(`Cannot add "${phrase}": ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    const { keyword, variants } = result;
+    const config = loadConfig();
+    const active = getActiveKeywords(config.wakeWord);
+
+    saveConfig({
+      wakeWord: {
+        ...config.wakeWord,
+        keywords: { ...config.wakeWord.keywords, [keyword]: variants },
+        keyword: options.activate && !active.includes(keyword) ? [...active, keyword] : config.wakeWord.keyword,
+      },
+    });
+
+    console.log(`Added wake word "${keyword}":`);
+    variants.forEach(v => console.log(`  ${v}`));
+    console.log('');
+    if (options.activate) {
+      console.log('Restart to use it: claude-voice-light restart');
+    } else {
+      console.log(`Activate it with: claude-voice-light config set wakeWord.keyword="${keyword}"`);
+    }
+  });
+
+keywordCmd
+  .command('list')
+  .description('List configured wake words')
+  .action(() => {
+    const config = loadConfig();
+    const active = getActiveKeywords(config.wakeWord);
+
+    for (const [keyword, variants] of Object.entries(config.wakeWord.keywords)) {
+      const marker = active.includes(keyword) ? '*' : ' ';
+      console.log(`${marker} ${keyword} (${variants.length} variations)`);
+    }
+  });
+
+keywordCmd
+  .command('tune <keyword>')
+  .description('Set boost score and trigger threshold for all variations of a wake word')
+  .option('-b, --boost <score>', 'Boosting score (higher favours this keyword, default 1.0)')
+  .option('-t, --threshold <value>', 'Trigger threshold 0-1 (lower triggers more easily)')
+  .action((name: string, options) => {
+    const config = loadConfig();
+    const keyword = name.toLowerCase();
+    const variants = config.wakeWord.keywords[keyword];
+
+    if (!variants) {
+      console.error(`Unknown wake word: ${keyword}`);
+      process.exit(1);
+    }
+
+    const boost = options.boost !== undefined ? parseFloat(options.boost) : undefined;
+    const threshold = options.threshold !== undefined ? parseFloat(options.threshold) : undefined;
+
+    if (boost !== undefined && !(boost > 0)) {
+      console.error('Boost must be a positive number.');
+      process.exit(1);
+    }
+    if (threshold !== undefined && !(threshold > 0 && threshold < 1)) {
+      console.error('Threshold must be between 0 and 1.');
+      process.exit(1);
+    }
+
+    const tuned = variants.map(v => {
+      const variant = typeof v === 'string' ? { tokens: v } : { ...v };
+      if (boost !== undefined) variant.boost = boost;
+      if (threshold !== undefined) variant.threshold = threshold;
+      return variant;
+    });
+
+    saveConfig({
+      wakeWord: {
+        ...config.wakeWord,
+        keywords: { ...config.wakeWord.keywords, [keyword]: tuned },
+      },
+    });
+
+    console.log(`Tuned "${keyword}" (${tuned.length} variations)`);
+    if (boost !== undefined) console.log(`  boost: ${boost}`);
+    if (threshold !== undefined) console.log(`  threshold: ${threshold}`);
+  });
+
+keywordCmd.action(() => {
+  keywordCmd.help();
+});
+
+// Vocabulary commands
+const vocabCmd = program
+  .command('vocab')
+  .description('Manage custom vocabulary (terms the STT model mishears)');
+
+vocabCmd
+  .command('add <term>')
+  .description('Add a term, optionally with what the model writes instead')
+  .option(
+    '-s, --sounds-like <phrase>',
+    'Misheard form, e.g. "cube control" (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .action((term: string, options) => {
+    try {
+      const entry = addVocabularyTerm(term, options.soundsLike);
+      console.log(`Added "${entry.term}"${entry.soundsLike ? ` (sounds like: ${entry.soundsLike.join(', ')})` : ''}`);
+    } catch (error) {
+      console.error(`Cannot add "${term}": ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+vocabCmd
+  .command('list')
+  .description('List vocabulary terms')
+  .action(() => {
+    const { terms } = loadVocabulary();
+
+    if (terms.length === 0) {
+      console.log('No vocabulary terms. Add one with: claude-voice-light vocab add <term>');
+      return;
+    }
+
+    for (const entry of terms) {
+      const forms = entry.soundsLike?.length ? ` <- ${entry.soundsLike.map(f => `"${f}"`).join(', ')}` : '';
+      console.log(`  ${entry.term}${forms}`);
+    }
+    console.log('');
+    console.log(`File: ${getVocabularyPath()}`);
+  });
+
+vocabCmd
+  .command('remove <term>')
+  .description('Remove a vocabulary term')
+  .action((term: string) => {
+    if (!removeVocabularyTerm(term)) {
+      console.error(`Not in vocabulary: ${term}`);
+      process.exit(1);
+    }
+    console.log(`Removed "${term}"`);
+  });
+
+vocabCmd.action(() => {
+  vocabCmd.help();
+});
+
+// History commands
+const historyCmd = program
+  .command('history')
+  .description('Browse and re-send past transcripts');
+
+function printHistory(entries: HistoryEntry[]): void {
+  if (entries.length === 0) {
+    console.log('No transcripts.');
+    return;
+  }
+
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).toLocaleString();
+    const note = entry.command ? ` [${entry.command}]` : '';
+    const audio = getEntryAudioPath(entry) ? ' [audio]' : '';
+    const text = entry.output || entry.text || '(no speech detected)';
+    console.log(`#${entry.id}  ${time}  (${entry.keyword})${note}${audio}  ${text}`);
+  }
+}
+
+historyCmd
+  .command('list')
+  .description('Show recent transcripts')
+  .option('-n, --limit <n>', 'Number of entries', '20')
+  .option('--json', 'Output JSON')
+  .action((options) => {
+    const entries = readHistory().slice(-parseInt(options.limit, 10));
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+    } else {
+      printHistory(entries);
+    }
+  });
+
+historyCmd
+  .command('search <query>')
+  .description('Find transcripts containing text')
+  .option('-n, --limit <n>', 'Number of entries', '20')
+  .action((query: string, options) => {
+    printHistory(searchHistory(query).slice(-parseInt(options.limit, 10)));
+  });
+
+historyCmd
+  .command('resend <id>')
+  .description('Type a past transcript into the focused terminal again')
+  .option('-e, --enter', 'Press Enter after typing')
+  .option('--raw', 'Send the transcript as recognized instead of the processed text')
+  .action(async (id: string, options) => {
+    const entry = findHistoryEntry(parseInt(id.replace(/^#/, ''), 10));
+    if (!entry) {
+      console.error(`No history entry #${id}`);
+      process.exit(1);
+    }
+
+    const text = options.raw ? entry.text : entry.output || entry.text;
+    const config = loadConfig();
+    const action = getKeywordAction(config.wakeWord, entry.keyword);
+
+    try {
+      await sendText(action, text, entry.keyword, config.commands, options.enter === true);
+      console.log(`Sent #${entry.id}: ${text}`);
+    } catch (error) {
+      console.error(`Failed to send: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+historyCmd
+  .command('export')
+  .description('Export the transcript history')
+  .option('-f, --format <format>', 'json, jsonl or csv', 'json')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((options) => {
+    if (!['json', 'jsonl', 'csv'].includes(options.format)) {
+      console.error(`Unknown format: ${options.format} (use json, jsonl or csv)`);
+      process.exit(1);
+    }
+
+    const data = exportHistory(readHistory(), options.format);
+    if (options.output) {
+      fs.writeFileSync(options.output, data);
+      console.log(`Exported to ${options.output}`);
+    } else {
+      process.stdout.write(data);
+    }
+  });
+
+historyCmd
+  .command('audio <id>')
+  .description('Print the path of the kept audio for a transcript')
+  .action((id: string) => {
+    const entry = findHistoryEntry(parseInt(id.replace(/^#/, ''), 10));
+    if (!entry) {
+      console.error(`No history entry #${id}`);
+      process.exit(1);
+    }
+
+    const file = getEntryAudioPath(entry);
+    if (!file) {
+      console.error(`No audio kept for #${entry.id} (enable with: claude-voice-light config set recording.keepAudio=true)`);
+      process.exit(1);
+    }
+    console.log(file);
+  });
+
+historyCmd
+  .command('prune')
+  .description('Delete kept command audio beyond the retention limits')
+  .option('--max-age <days>', 'Delete audio older than this (default: recording.audioRetention.maxAgeDays)')
+  .option('--max-size <mb>', 'Keep at most this much audio (default: recording.audioRetention.maxSizeMB)')
+  .action((options) => {
+    const retention = { ...loadConfig().recording.audioRetention };
+    if (options.maxAge !== undefined) retention.maxAgeDays = parseFloat(options.maxAge);
+    if (options.maxSize !== undefined) retention.maxSizeMB = parseFloat(options.maxSize);
+
+    if (isNaN(retention.maxAgeDays) || isNaN(retention.maxSizeMB)) {
+      console.error('--max-age and --max-size must be numbers');
+      process.exit(1);
+    }
+
+    const result = pruneAudio(retention);
+    const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    console.log(`Removed ${result.removed} file(s), freed ${mb(result.freedBytes)} MB`);
+    console.log(`Kept ${result.remaining} file(s), ${mb(result.remainingBytes)} MB`);
+  });
+
+historyCmd.action(() => {
+  historyCmd.help();
+});
+
 program.parse();
@@ -2,18 +2,123 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
+// What to do with the transcript of a command started by a keyword
+export interface KeywordAction {
+  // claude: type into Claude Code, command: run a shell command, stdout: print only
+  type: 'claude' | 'command' | 'stdout';
+  command?: string;
+  pressEnter?: boolean;
+}
+
+// A keyword token sequence with its own spotting parameters
+export interface KeywordVariant {
+  tokens: string;
+  // Boosting score for this variant (spotter default: 1.0)
+  boost?: number;
+  // Trigger threshold for this variant (0-1, lower triggers more easily)
+  threshold?: number;
+}
+
 // Wake Word Configuration
 export interface WakeWordConfig {
-  keyword: string;
+  // One keyword, or several keywords active at once
+  keyword: string | string[];
+  // 0-1, higher detects more easily (more false accepts)
   sensitivity: number;
   playSound: boolean;
-  keywords: Record<string, string[]>;
+  keywords: Record<string, Array<string | KeywordVariant>>;
+  actions: Record<string, KeywordAction>;
+}
+
+// Settings for one STT provider (stt.providers.<name>)
+export interface STTProviderSettings {
+  // Module exporting createProvider (path relative to the config directory, or a package name)
+  module?: string;
+  // Server URL (whisper-cpp, openai)
+  url?: string;
+  // Sent as a bearer token; "env:NAME" reads it from the environment
+  apiKey?: string;
+  // Model name sent to the server
+  model?: string;
+  // Request timeout (ms)
+  timeout?: number;
+  // Passed to third-party providers as is
+  [key: string]: unknown;
+}
+
+// Stops trying an engine that keeps failing (only with stt.fallback: a single engine is never skipped)
+export interface CircuitBreakerConfig {
+  // Consecutive failures before the engine is skipped
+  failures: number;
+  // Seconds until a skipped engine gets another try
+  cooldown: number;
+}
+
+// Re-transcription of the last command with a larger model ("redo", `retry`)
+export interface RetryConfig {
+  // Model to use, or 'auto' for the largest installed Whisper model above stt.model
+  model: string;
+  // Load the retry model at startup so a redo does not wait for it
+  warm: boolean;
+  // Erase the previous text before typing the corrected one (when it was not submitted)
+  replace: boolean;
+}
+
+// Second pass with a larger model when the fast transcript looks unreliable
+export interface EscalationConfig {
+  enabled: boolean;
+  // Model for the second pass, or 'auto' for the largest installed Whisper model above stt.model
+  model: string;
+  // Below this many characters per second of speech the transcript is suspect
+  minCharsPerSecond: number;
+  // Same word sequence this many times in a row counts as a repetition loop
+  maxRepeats: number;
 }
 
 // STT Configuration
 export interface STTConfig {
+  // Language code, or 'auto' to identify the language of each utterance
   language: string;
-  model: 'whisper-tiny' | 'whisper-base' | 'whisper-small';
+  // Languages 'auto' may choose from, first is the fallback (empty: any)
+  languages: string[];
+  // translate: Whisper translates the speech to English
+  task: 'transcribe' | 'translate';
+  // Phrase opening a non-English utterance as its own clause ("auf Englisch, ...") -> task for that
+  // utterance only. null disables a phrase.
+  taskModifiers: Record<string, 'transcribe' | 'translate' | null>;
+  // Engine: sherpa-onnx, whisper-cpp, openai, or a name in providers with a module
+  provider: string;
+  providers: Record<string, STTProviderSettings>;
+  // Tried in order when an engine fails to initialize, times out or throws:
+  // provider names or offline model ids (e.g. ["whisper-cpp", "whisper-base"])
+  fallback: string[];
+  // Seconds an engine may take for one command before the next one is tried (0: no limit).
+  // Covers sherpa-onnx decoding, but not the language identification of stt.language auto
+  timeout: number;
+  circuitBreaker: CircuitBreakerConfig;
+  // Offline model id for sherpa-onnx (see `claude-voice-light model list`)
+  model: string;
+  // Transcribe while recording and show partial results
+  streaming: boolean;
+  streamingModel: 'zipformer-en-20M' | 'zipformer-bilingual-zh-en' | 'paraformer-bilingual-zh-en';
+  retry: RetryConfig;
+  escalation: EscalationConfig;
+  // Transcripts models produce for noise or silence ("thank you for watching")
+  hallucinations: string[];
+}
+
+// Audio Source Configuration
+export interface AudioSourceConfig {
+  type: 'microphone' | 'file' | 'stdin' | 'fifo';
+  path?: string;
+  format?: 'wav' | 'raw';
+  realtime?: boolean;
+}
+
+// Kept command audio limits (0 = no limit)
+export interface AudioRetentionConfig {
+  maxAgeDays: number;
+  maxSizeMB: number;
 }
 
 // Recording Configuration
@@ -22,6 +127,94 @@ export interface RecordingConfig {
   silenceThreshold: number;
   silenceAmplitude: number;
   maxDuration: number;
+  // How the end of a command is detected: amplitude threshold or neural VAD
+  endpointer: 'amplitude' | 'vad';
+  // Raise silenceAmplitude to follow background noise measured while listening
+  adaptiveNoiseFloor: boolean;
+  source: AudioSourceConfig;
+  // Store command audio next to its history entry (needs history.enabled)
+  keepAudio: boolean;
+  audioRetention: AudioRetentionConfig;
+}
+
+// What a spoken control phrase does
+export interface VoiceCommand {
+  // cancel: drop the utterance, hold: type without pressing Enter, send: press Enter,
+  // newline: type and insert a line break, key: press a key, keyword: switch wake word,
+  // config: set a config value, redo: re-transcribe the last command with a larger model
+  type: 'cancel' | 'hold' | 'send' | 'newline' | 'key' | 'keyword' | 'config' | 'redo';
+  key?: string;
+  keyword?: string;
+  configKey?: string;
+  value?: unknown;
+}
+
+// Voice Command Configuration
+export interface CommandsConfig {
+  enabled: boolean;
+  // Spoken phrase -> command. A trailing "*" captures the rest of the utterance
+  // (used as the key, keyword or value when not set). null disables a phrase.
+  phrases: Record<string, VoiceCommand | null>;
+  // Key pressed by newline commands
+  newlineKey: string;
+}
+
+// A symbol produced by a spoken form ("open paren" -> "(")
+export interface SpokenSymbol {
+  text: string;
+  // Which side joins the neighbouring word without a space
+  attach?: 'left' | 'right' | 'both' | 'none';
+}
+
+// Transcript Formatting Configuration
+export interface FormattingConfig {
+  // Off by default: symbol words ("dash", "dot", "comma") are replaced wherever they are spoken
+  enabled: boolean;
+  // Transformers applied in order (spoken-symbols, identifiers, whitespace)
+  transformers: string[];
+  // Extra spoken forms per language, e.g. {"en": {"fat arrow": "=>"}} (null removes one)
+  symbols: Record<string, Record<string, string | SpokenSymbol | null>>;
+}
+
+// Custom Vocabulary Configuration (terms live in vocabulary.json)
+export interface VocabularyConfig {
+  enabled: boolean;
+  // Also replace near matches (edit distance and phonetic key)
+  fuzzy: boolean;
+  // Similarity (0-1) a near match needs
+  threshold: number;
+  // Contextual biasing score for models that support hotwords: the streaming and offline
+  // transducer models (zipformer), not Whisper, NeMo or the other families
+  hotwordsScore: number;
+}
+
+// Non-speech filter applied before a transcript is sent
+export interface FilterConfig {
+  enabled: boolean;
+  // Drop non-speech annotations ("[Music]", "(laughs)", "♪")
+  annotations: boolean;
+  // Drop transcripts that are a known hallucination (stt.hallucinations)
+  hallucinations: boolean;
+  // Collapse a word sequence repeated this many times in a row (0 = off)
+  collapseRepeats: number;
+  // Refuse to send when the audio has less speech than this above recording.silenceAmplitude (ms, 0 = off)
+  minSpeechMs: number;
+}
+
+// Transcript History Configuration (stored in history.jsonl)
+export interface HistoryConfig {
+  enabled: boolean;
+}
+
+// Local control API Configuration
+export interface ControlConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  // Listen on a Unix socket instead of host/port
+  socket?: string;
+  // Require "Authorization: Bearer <token>" (or ?token=) when set
+  token?: string;
 }
 
 // Main Configuration Interface
@@ -29,6 +222,12 @@ export interface Config {
   wakeWord: WakeWordConfig;
   stt: STTConfig;
   recording: RecordingConfig;
+  commands: CommandsConfig;
+  formatting: FormattingConfig;
+  vocabulary: VocabularyConfig;
+  filter: FilterConfig;
+  history: HistoryConfig;
+  control: ControlConfig;
   debug: boolean;
 }
 
@@ -94,16 +293,122 @@ export function getDefaultConfig(): Config {
           '▁C L A U D E',
         ],
       },
+      actions: {},
     },
     stt: {
       language: 'en',
+      languages: [],
+      task: 'transcribe',
+      taskModifiers: {
+        'in english': 'translate',
+        'english please': 'translate',
+        'auf englisch': 'translate',
+        'ingilizce': 'translate',
+        verbatim: 'transcribe',
+        'no translation': 'transcribe',
+      },
+      provider: 'sherpa-onnx',
+      providers: {
+        'whisper-cpp': { url: 'http://127.0.0.1:8080', timeout: 30000 },
+        openai: {
+          url: 'https://api.openai.com/v1',
+          apiKey: 'env:OPENAI_API_KEY',
+          model: 'whisper-1',
+          timeout: 30000,
+        },
+      },
+      fallback: [],
+      timeout: 30,
+      circuitBreaker: {
+        failures: 3,
+        cooldown: 60,
+      },
       model: 'whisper-tiny',
+      streaming: false,
+      streamingModel: 'zipformer-en-20M',
+      retry: {
+        model: 'auto',
+        warm: false,
+        replace: true,
+      },
+      escalation: {
+        enabled: false,
+        model: 'auto',
+        minCharsPerSecond: 2,
+        maxRepeats: 4,
+      },
+      hallucinations: [
+        'thank you for watching',
+        'thanks for watching',
+        'please subscribe',
+        'like and subscribe',
+        'subtitles by the amara.org community',
+        'subtitles by',
+        'see you in the next video',
+        'thank you',
+        'you',
+        'bye',
+      ],
     },
     recording: {
       sampleRate: 16000,
       silenceThreshold: 2500,
       silenceAmplitude: 500,
       maxDuration: 30000,
+      endpointer: 'amplitude',
+      adaptiveNoiseFloor: false,
+      source: {
+        type: 'microphone',
+      },
+      keepAudio: false,
+      audioRetention: {
+        maxAgeDays: 30,
+        maxSizeMB: 500,
+      },
+    },
+    commands: {
+      enabled: true,
+      phrases: {
+        'cancel that': { type: 'cancel' },
+        'scratch that': { type: 'cancel' },
+        "don't send": { type: 'hold' },
+        'do not send': { type: 'hold' },
+        'send it': { type: 'send' },
+        'new line': { type: 'newline' },
+        'press escape': { type: 'key', key: 'Escape' },
+        'press enter': { type: 'key', key: 'Return' },
+        'press tab': { type: 'key', key: 'Tab' },
+        'switch to *': { type: 'keyword' },
+        redo: { type: 'redo' },
+        'redo that': { type: 'redo' },
+      },
+      newlineKey: 'shift+Return',
+    },
+    formatting: {
+      enabled: false,
+      transformers: ['spoken-symbols', 'identifiers', 'whitespace'],
+      symbols: {},
+    },
+    vocabulary: {
+      enabled: true,
+      fuzzy: true,
+      threshold: 0.85,
+      hotwordsScore: 1.5,
+    },
+    filter: {
+      enabled: true,
+      annotations: true,
+      hallucinations: true,
+      collapseRepeats: 4,
+      minSpeechMs: 200,
+    },
+    history: {
+      enabled: true,
+    },
+    control: {
+      enabled: false,
+      host: '127.0.0.1',
+      port: 7717,
     },
     debug: false,
   };
@@ -197,7 +502,11 @@ export function setConfigValue(keyPath: string, value: unknown): void {
 
   // Try to parse value as JSON for objects/arrays/booleans/numbers
   if (typeof value === 'string') {
-    if (value === 'true') {
+    const json = parseJsonValue(value);
+
+    if (json !== undefined) {
+      current[lastKey] = json;
+    } else if (value === 'true') {
       current[lastKey] = true;
     } else if (value === 'false') {
       current[lastKey] = false;
@@ -213,6 +522,21 @@ export function setConfigValue(keyPath: string, value: unknown): void {
   saveConfig(config);
 }
 
+/**
+ * Parse a JSON array or object, returns undefined for anything else
+ */
+function parseJsonValue(value: string): unknown {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function deepMerge(target: any, source: any): any {
   const result = { ...target };
@@ -0,0 +1,447 @@
+/**
+ * Local HTTP + WebSocket control API for the listener
+ *
+ * HTTP:
+ *   GET  /status             listener state
+ *   POST /pause, /resume     stop / start reacting to audio
+ *   POST /trigger            start recording a command (push-to-talk);
+ *                            {"hold": true} records until /release,
+ *                            a second trigger while recording stops it
+ *   POST /release            stop recording
+ *   POST /keyword            {"keyword": "jarvis"} or {"keywords": [...]}
+ *   POST /model              {"model": "whisper-base"}
+ * WebSocket:
+ *   /events                  JSON messages: {"event": "...", "data": ..., "time": ...}
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { WebSocketServer, WebSocket } from 'ws';
+import { ControlConfig, getConfigDir } from '../config';
+
+// Largest request body accepted
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Host headers accepted without a token (a page on a DNS-rebound name sends its own)
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface ControlHandlers {
+  getStatus(): Record<string, unknown>;
+  pause(): void;
+  resume(): void;
+  trigger(keyword?: string, hold?: boolean): 'started' | 'stopped' | null;
+  release(): boolean;
+  setKeywords(keywords: string[]): Promise<void>;
+  setModel(model: string): Promise<void>;
+  retry(options: { id?: number; model?: string }): Promise<{ model: string; text: string; output: string }>;
+}
+
+export interface ControlEvent {
+  event: string;
+  data?: unknown;
+}
+
+/**
+ * Where a running daemon's control API can be reached
+ */
+export interface ControlEndpoint {
+  url?: string;
+  socket?: string;
+  token?: string;
+  pid: number;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function getControlEndpointFile(): string {
+  return path.join(getConfigDir(), 'control.json');
+}
+
+/**
+ * Read the endpoint written by a running daemon
+ */
+export function readControlEndpoint(): ControlEndpoint | null {
+  try {
+    return JSON.parse(fs.readFileSync(getControlEndpointFile(), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+
+/**
+ * Send a request to a running daemon's control API
+ * @returns Parsed JSON response and HTTP status
+ */
+export function controlRequest(
+  endpoint: ControlEndpoint,
+  method: string,
+  route: string,
+  body?: unknown
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ status: number; body: Record<string, any> }> {
+  return new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const headers: http.OutgoingHttpHeaders = {};
+    if (payload) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = Buffer.byteLength(payload);
+    }
+    if (endpoint.token) {
+      headers['Authorization'] = `Bearer ${endpoint.token}`;
+    }
+
+    const target = endpoint.socket
+      ? { socketPath: endpoint.socket, path: route }
+      : (() => {
+          const url = new URL(route, endpoint.url);
+          return { hostname: url.hostname, port: url.port, path: url.pathname };
+        })();
+
+    const req = http.request({ ...target, method, headers, timeout: 5000 }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        try {
+          resolve({ status: res.statusCode || 0, body: JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}') });
+        } catch {
+          reject(new Error(`Invalid response from control API (HTTP ${res.statusCode})`));
+        }
+      });
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Control API did not respond')));
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+export class ControlServer {
+  private config: ControlConfig;
+  private handlers: ControlHandlers;
+  private events: EventEmitter;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  // Set once this server owns the socket and endpoint file
+  private listening = false;
+  private onEvent = (event: ControlEvent) => this.broadcast(event);
+
+  /**
+   * @param events - Emitter whose 'event' messages are streamed to WebSocket clients
+   */
+  constructor(config: ControlConfig, handlers: ControlHandlers, events: EventEmitter) {
+    this.config = config;
+    this.handlers = handlers;
+    this.events = events;
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJson(res, status, { error: (error as Error).message });
+      });
+    });
+
+    this.wss = new WebSocketServer({ noServer: true });
+
+    this.server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== '/events' || !this.isAuthorized(req, url)) {
+        socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      this.wss!.handleUpgrade(req, socket, head, (ws) => {
+        // A malformed frame from one client must not take the listener down
+        ws.on('error', (error) => {
+          console.warn(`Control API: dropped WebSocket client (${error.message})`);
+          ws.terminate();
+        });
+        ws.send(JSON.stringify({ event: 'status', data: this.handlers.getStatus(), time: Date.now() }));
+      });
+    });
+
+    await this.listen();
+    this.listening = true;
+    this.events.on('event', this.onEvent);
+    this.writeEndpoint();
+  }
+
+  stop(): void {
+    this.events.off('event', this.onEvent);
+
+    if (this.wss) {
+      for (const client of this.wss.clients) {
+        client.terminate();
+      }
+      this.wss.close();
+      this.wss = null;
+    }
+
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+
+    // A server that failed to start leaves another listener's socket alone
+    if (!this.listening) {
+      return;
+    }
+    this.listening = false;
+
+    try {
+      fs.unlinkSync(getControlEndpointFile());
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    if (this.config.socket) {
+      try {
+        fs.unlinkSync(this.config.socket);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  /**
+   * Human readable address
+   */
+  getAddress(): string {
+    return this.config.socket ? `unix:${this.config.socket}` : `http://${this.config.host}:${this.config.port}`;
+  }
+
+  private async listen(): Promise<void> {
+    if (this.config.socket) {
+      await removeStaleSocket(this.config.socket);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = this.server!;
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        server.on('error', (error) => console.error(`Control API error: ${error.message}`));
+      });
+
+      if (this.config.socket) {
+        server.listen(this.config.socket, () => {
+          fs.chmodSync(this.config.socket!, 0o600);
+          resolve();
+        });
+      } else {
+        server.listen(this.config.port, this.config.host, () => resolve());
+      }
+    });
+  }
+
+  private writeEndpoint(): void {
+    const endpoint: ControlEndpoint = this.config.socket
+      ? { socket: this.config.socket, token: this.config.token, pid: process.pid }
+      : { url: `http://${this.config.host}:${this.config.port}`, token: this.config.token, pid: process.pid };
+
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    fs.writeFileSync(getControlEndpointFile(), JSON.stringify(endpoint, null, 2), { mode: 0o600 });
+  }
+
+  private broadcast(event: ControlEvent): void {
+    if (!this.wss) return;
+
+    const message = JSON.stringify({ ...event, time: Date.now() });
+    for (const client of this.wss.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  /**
+   * Requests need the token when one is configured. Without a token,
+   * browser requests (which carry an Origin header) and requests for
+   * another host name (DNS rebinding) are refused so web pages cannot
+   * drive the listener.
+   */
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    const token = this.config.token;
+    if (token) {
+      const header = req.headers.authorization || '';
+      return header === `Bearer ${token}` || url.searchParams.get('token') === token;
+    }
+    return !req.headers.origin && this.isLocalHost(req.headers.host);
+  }
+
+  private isLocalHost(host: string | undefined): boolean {
+    if (!host) {
+      return false;
+    }
+    try {
+      const { hostname } = new URL(`http://${host}`);
+      return LOCAL_HOSTS.includes(hostname) || hostname === this.config.host;
+    } catch {
+      return false;
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (!this.isAuthorized(req, url)) {
+      throw new HttpError(403, 'Forbidden');
+    }
+
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      case 'GET /status':
+        sendJson(res, 200, this.handlers.getStatus());
+        return;
+
+      case 'POST /pause':
+        this.handlers.pause();
+        sendJson(res, 200, { ok: true });
+        return;
+
+      case 'POST /resume':
+        this.handlers.resume();
+        sendJson(res, 200, { ok: true });
+        return;
+
+      case 'POST /trigger': {
+        const body = await readJsonBody(req);
+        const result = this.handlers.trigger(
+          typeof body.keyword === 'string' ? body.keyword : undefined,
+          body.hold === true
+        );
+        if (!result) {
+          throw new HttpError(409, 'Not ready to record');
+        }
+        sendJson(res, 200, { ok: true, recording: result === 'started' });
+        return;
+      }
+
+      case 'POST /release':
+        sendJson(res, 200, { ok: true, stopped: this.handlers.release() });
+        return;
+
+      case 'POST /keyword': {
+        const body = await readJsonBody(req);
+        const keywords = Array.isArray(body.keywords) ? body.keywords : [body.keyword];
+        if (!keywords.every((k: unknown) => typeof k === 'string' && k)) {
+          throw new HttpError(400, 'Expected {"keyword": "..."} or {"keywords": [...]}');
+        }
+        await this.handlers.setKeywords(keywords as string[]).catch((error) => {
+          throw new HttpError(400, (error as Error).message);
+        });
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      case 'POST /model': {
+        const body = await readJsonBody(req);
+        if (typeof body.model !== 'string') {
+          throw new HttpError(400, 'Expected {"model": "..."}');
+        }
+        await this.handlers.setModel(body.model).catch((error) => {
+          throw new HttpError(400, (error as Error).message);
+        });
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      case 'POST /retry': {
+        const body = await readJsonBody(req);
+        const result = await this.handlers
+          .retry({
+            id: typeof body.id === 'number' ? body.id : undefined,
+            model: typeof body.model === 'string' ? body.model : undefined,
+          })
+          .catch((error) => {
+            throw new HttpError(409, (error as Error).message);
+          });
+        sendJson(res, 200, { ok: true, ...result });
+        return;
+      }
+
+      default:
+        throw new HttpError(404, `Not found: ${route}`);
+    }
+  }
+}
+
+/**
+ * Remove a socket left by a crashed daemon
+ * @throws Error when a running listener still accepts connections on it
+ */
+function removeStaleSocket(socket: string): Promise<void> {
+  if (!fs.existsSync(socket)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const probe = net.connect(socket);
+    probe.once('connect', () => {
+      probe.destroy();
+      reject(new Error(`Control socket ${socket} is in use by another listener`));
+    });
+    probe.once('error', (error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ECONNREFUSED') {
+        reject(error);
+        return;
+      }
+      fs.unlinkSync(socket);
+      resolve();
+    });
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8').trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        const body = JSON.parse(text);
+        resolve(body && typeof body === 'object' ? body : {});
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
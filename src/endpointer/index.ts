@@ -0,0 +1,195 @@
+/**
+ * Endpointing - decides when the user has finished speaking a command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RecordingConfig, getModelsDir, getLocalModelsDir } from '../config';
+import {
+  SilenceDetectorState,
+  createSilenceDetectorState,
+  updateSilenceDetector,
+  bufferToFloat32,
+} from '../utils/silence';
+
+// Silero voice activity detection model
+export const VAD_MODEL = {
+  id: 'silero-vad',
+  name: 'Silero VAD',
+  file: 'silero_vad.onnx',
+  url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/silero_vad.onnx',
+  size: '2 MB',
+};
+
+export interface Endpointer {
+  readonly name: string;
+  /** Start a new command */
+  reset(): void;
+  /**
+   * Feed a chunk of command audio
+   * @returns true when the speaker has finished
+   */
+  accept(data: Buffer): boolean;
+  /** Override the silence amplitude (amplitude-based endpointers only) */
+  setSilenceAmplitude?(amplitude: number): void;
+  free(): void;
+}
+
+/**
+ * Amplitude based endpointing: ends after silenceThreshold ms below silenceAmplitude
+ */
+export class AmplitudeEndpointer implements Endpointer {
+  readonly name = 'amplitude';
+  private config: RecordingConfig;
+  private state: SilenceDetectorState = createSilenceDetectorState();
+  private recordedMs = 0;
+  private silenceAmplitude: number;
+
+  constructor(config: RecordingConfig) {
+    this.config = config;
+    this.silenceAmplitude = config.silenceAmplitude || 500;
+  }
+
+  setSilenceAmplitude(amplitude: number): void {
+    this.silenceAmplitude = amplitude;
+  }
+
+  reset(): void {
+    this.state = createSilenceDetectorState();
+    this.recordedMs = 0;
+  }
+
+  accept(data: Buffer): boolean {
+    // Timing is measured in audio time so faster-than-real-time sources behave the same
+    this.recordedMs += (data.length / 2 / this.config.sampleRate) * 1000;
+
+    const result = updateSilenceDetector(
+      this.state,
+      data,
+      this.silenceAmplitude,
+      this.config.silenceThreshold,
+      this.recordedMs
+    );
+    this.state = result.state;
+    return result.shouldEnd;
+  }
+
+  free(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * Neural endpointing with sherpa-onnx Silero VAD: ends after
+ * silenceThreshold ms without detected speech, regardless of background noise level
+ */
+export class VadEndpointer implements Endpointer {
+  readonly name = 'vad';
+  private config: RecordingConfig;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private vad: any;
+  private pending: Float32Array = new Float32Array(0);
+  private silenceMs = 0;
+  // Samples per VAD window (Silero: 512 at 16 kHz, 256 at 8 kHz)
+  private windowSize: number;
+
+  constructor(config: RecordingConfig, modelFile: string) {
+    this.config = config;
+    this.windowSize = config.sampleRate === 8000 ? 256 : 512;
+
+    const { Vad } = require('sherpa-onnx-node/vad');
+    this.vad = new Vad(
+      {
+        sileroVad: {
+          model: modelFile,
+          threshold: 0.5,
+          minSilenceDuration: 0.25,
+          minSpeechDuration: 0.25,
+          windowSize: this.windowSize,
+          maxSpeechDuration: Math.max(5, config.maxDuration / 1000),
+        },
+        sampleRate: config.sampleRate,
+        numThreads: 1,
+        provider: 'cpu',
+        debug: false,
+      },
+      60
+    );
+  }
+
+  reset(): void {
+    this.vad.reset();
+    this.pending = new Float32Array(0);
+    this.silenceMs = 0;
+  }
+
+  accept(data: Buffer): boolean {
+    const incoming = bufferToFloat32(data);
+    const samples = new Float32Array(this.pending.length + incoming.length);
+    samples.set(this.pending);
+    samples.set(incoming, this.pending.length);
+
+    const windowMs = (this.windowSize / this.config.sampleRate) * 1000;
+    let offset = 0;
+
+    for (; offset + this.windowSize <= samples.length; offset += this.windowSize) {
+      this.vad.acceptWaveform(samples.subarray(offset, offset + this.windowSize));
+
+      if (this.vad.isDetected()) {
+        this.silenceMs = 0;
+      } else {
+        this.silenceMs += windowMs;
+      }
+
+      // Speech segments are not needed here - keep the queue empty
+      while (!this.vad.isEmpty()) {
+        this.vad.pop();
+      }
+    }
+
+    this.pending = samples.slice(offset);
+    return this.silenceMs > this.config.silenceThreshold;
+  }
+
+  free(): void {
+    this.vad = null;
+  }
+}
+
+/**
+ * Get the path of the VAD model file (shared models first, then local downloads)
+ */
+export function getVadModelPath(): string {
+  const sharedPath = path.join(getModelsDir(), VAD_MODEL.file);
+  return fs.existsSync(sharedPath) ? sharedPath : path.join(getLocalModelsDir(), VAD_MODEL.file);
+}
+
+/**
+ * Create the endpointer selected by recording.endpointer,
+ * falling back to amplitude-based endpointing if VAD is unavailable
+ */
+export function createEndpointer(config: RecordingConfig): Endpointer {
+  if (config.endpointer !== 'vad') {
+    return new AmplitudeEndpointer(config);
+  }
+
+  const modelFile = getVadModelPath();
+
+  if (!fs.existsSync(modelFile)) {
+    console.warn('VAD model not found, using amplitude-based endpointing.');
+    console.warn('Run: claude-voice-light model download');
+    return new AmplitudeEndpointer(config);
+  }
+
+  if (config.sampleRate !== 8000 && config.sampleRate !== 16000) {
+    console.warn(`VAD needs 8 or 16 kHz audio (got ${config.sampleRate}), using amplitude-based endpointing.`);
+    return new AmplitudeEndpointer(config);
+  }
+
+  try {
+    return new VadEndpointer(config, modelFile);
+  } catch (error) {
+    console.warn('Failed to initialize VAD, using amplitude-based endpointing:', error);
+    return new AmplitudeEndpointer(config);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Non-speech filter - keeps Whisper output for silence or noise ("[Music]",
+ * "Thank you.", "you you you you") from being sent
+ */
+
+import { FilterConfig } from '../config';
+import { frameAmplitudes } from '../calibration';
+import { matchHallucination } from '../stt/quality';
+
+// Frame length used by frameAmplitudes
+const FRAME_MS = 100;
+
+// Longest word sequence collapsed as a loop
+const MAX_LOOP_WORDS = 4;
+
+// "[Music]", "[BLANK_AUDIO]", "(upbeat music)", "♪ ... ♪" - a bracket right after a word ("arr[i]") is code
+const ANNOTATION_PATTERN = /(?<![\p{L}\p{N}_])(?:\[([^\]]*)\]|\(([^)]*)\))|♪[^♪]*♪|[♪♫]/gu;
+
+// Words that start or end a non-speech tag ("[MUSIC PLAYING]", "(audience laughing)")
+const NON_SPEECH_WORDS = new Set([
+  'music',
+  'applause',
+  'laughter',
+  'laughs',
+  'laughing',
+  'chuckles',
+  'chuckling',
+  'giggles',
+  'sighs',
+  'sighing',
+  'cough',
+  'coughs',
+  'coughing',
+  'silence',
+  'noise',
+  'static',
+  'inaudible',
+  'indistinct',
+  'unintelligible',
+  'beep',
+  'beeping',
+  'clapping',
+  'breathing',
+]);
+
+// Whole tags whose words are not tags on their own
+const NON_SPEECH_TAGS = new Set(['blank audio', 'no speech', 'clears throat', 'foreign language', 'speaking foreign language']);
+
+export interface FilterResult {
+  // Text left to send ('' when the whole transcript was dropped)
+  text: string;
+  // What was removed and why
+  dropped: string[];
+}
+
+export interface FilterContext {
+  // Command audio (Int16 mono) for the energy gate
+  audio?: Buffer;
+  sampleRate?: number;
+  // Amplitude that counts as speech (recording.silenceAmplitude)
+  silenceAmplitude: number;
+  // Known hallucinations (stt.hallucinations)
+  hallucinations: string[];
+}
+
+/**
+ * Milliseconds of audio louder than the silence amplitude
+ */
+export function speechMs(audio: Buffer, sampleRate: number, silenceAmplitude: number): number {
+  return frameAmplitudes(audio, sampleRate).filter((a) => a >= silenceAmplitude).length * FRAME_MS;
+}
+
+/**
+ * Keep one copy of a word sequence repeated back to back at least `repeats` times
+ */
+export function collapseRepetition(text: string, repeats: number): string {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const key = (token: string) => token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+  const keys = tokens.map(key);
+
+  for (let n = 1; n <= MAX_LOOP_WORDS; n++) {
+    for (let start = 0; start + n * repeats <= keys.length; start++) {
+      const gram = keys.slice(start, start + n).join(' ');
+      if (!gram.trim()) continue;
+
+      let count = 1;
+      while (keys.slice(start + count * n, start + (count + 1) * n).join(' ') === gram) {
+        count++;
+      }
+
+      if (count >= repeats) {
+        // Keep the last copy so its trailing punctuation survives
+        tokens.splice(start, (count - 1) * n);
+        keys.splice(start, (count - 1) * n);
+      }
+    }
+  }
+
+  return tokens.join(' ');
+}
+
+/**
+ * Whether bracketed text is a caption for a sound rather than dictated text
+ */
+function isNonSpeechTag(tag: string): boolean {
+  if (!/^[\p{L}\s_-]+$/u.test(tag)) return false;
+
+  const words = tag.toLowerCase().split(/[\s_-]+/).filter(Boolean);
+  if (words.length === 0 || words.length > 3) return false;
+
+  return (
+    NON_SPEECH_TAGS.has(words.join(' ')) ||
+    NON_SPEECH_WORDS.has(words[0]) ||
+    NON_SPEECH_WORDS.has(words[words.length - 1])
+  );
+}
+
+/**
+ * Remove a phrase at the end of the text (matched word by word, ignoring case and punctuation)
+ */
+function removeTrailingPhrase(text: string, phrase: string): string {
+  const words = phrase
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter(Boolean)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return text;
+
+  const body = words.join("[^\\p{L}\\p{N}']+");
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}'])${body}[^\\p{L}\\p{N}]*$`, 'iu');
+  return text.replace(pattern, '').trim();
+}
+
+/**
+ * Remove non-speech output from a transcript before it is sent
+ */
+export function filterTranscript(text: string, config: FilterConfig, context: FilterContext): FilterResult {
+  const dropped: string[] = [];
+
+  if (!config.enabled) {
+    return { text, dropped };
+  }
+
+  if (config.minSpeechMs > 0 && context.audio && context.sampleRate) {
+    const ms = speechMs(context.audio, context.sampleRate, context.silenceAmplitude);
+    if (ms < config.minSpeechMs) {
+      return { text: '', dropped: [`"${text}" (no speech in audio: ${ms} ms)`] };
+    }
+  }
+
+  let result = text;
+
+  if (config.annotations) {
+    const annotations: string[] = [];
+    const stripped = result.replace(ANNOTATION_PATTERN, (match, bracket?: string, paren?: string) => {
+      const tag = bracket ?? paren;
+      if (tag !== undefined && !isNonSpeechTag(tag)) {
+        return match;
+      }
+      annotations.push(match);
+      return ' ';
+    });
+    if (annotations.length > 0) {
+      dropped.push(...annotations.map((a) => `"${a}" (annotation)`));
+      result = stripped.replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  if (config.collapseRepeats > 1) {
+    const collapsed = collapseRepetition(result, config.collapseRepeats);
+    if (collapsed !== result) {
+      dropped.push(`"${result}" (repetition, kept "${collapsed}")`);
+      result = collapsed;
+    }
+  }
+
+  if (config.hallucinations && result) {
+    // Several may be appended to real speech ("fix it. Thanks for watching. Subtitles by the Amara.org community.")
+    let phrase: string | null;
+    while (result && (phrase = matchHallucination(result, context.hallucinations))) {
+      const stripped = removeTrailingPhrase(result, phrase);
+      dropped.push(`"${stripped === result ? result : phrase}" (hallucination)`);
+      result = stripped === result ? '' : stripped;
+    }
+  }
+
+  // Nothing but punctuation left ("...", "-")
+  if (result && !/[\p{L}\p{N}]/u.test(result)) {
+    dropped.push(`"${result}" (no words)`);
+    result = '';
+  }
+
+  return { text: result, dropped };
+}
@@ -0,0 +1,61 @@
+/**
+ * Transcript post-processing - turns spoken forms into symbols and identifiers
+ * with a configurable chain of transformers
+ */
+
+import { FormattingConfig, SpokenSymbol } from '../config';
+import { getSpokenForms, SpokenForms } from './spoken-forms';
+import { BUILTIN_TRANSFORMERS, TranscriptTransformer, TransformerFactory } from './transformers';
+
+const transformers: Record<string, TransformerFactory> = { ...BUILTIN_TRANSFORMERS };
+
+/**
+ * Make a custom transformer available to formatting.transformers
+ */
+export function registerTransformer(name: string, factory: TransformerFactory): void {
+  transformers[name] = factory;
+}
+
+/**
+ * Built-in spoken forms for a language merged with formatting.symbols from config
+ */
+export function resolveSpokenForms(config: FormattingConfig, language: string): SpokenForms {
+  const forms = getSpokenForms(language);
+  const extra = config.symbols?.[language.toLowerCase()] || {};
+  const symbols: Record<string, SpokenSymbol> = { ...forms.symbols };
+
+  for (const [phrase, symbol] of Object.entries(extra)) {
+    if (symbol === null) {
+      delete symbols[phrase];
+    } else {
+      symbols[phrase] = typeof symbol === 'string' ? { text: symbol, attach: 'none' } : symbol;
+    }
+  }
+
+  return { ...forms, symbols };
+}
+
+/**
+ * Build the transformer chain configured for a language
+ */
+export function createFormattingPipeline(config: FormattingConfig, language: string): TranscriptTransformer[] {
+  const forms = resolveSpokenForms(config, language);
+
+  return config.transformers.map((name) => {
+    const factory = transformers[name];
+    if (!factory) {
+      throw new Error(`Unknown transformer: ${name}. Available: ${Object.keys(transformers).join(', ')}`);
+    }
+    return factory(forms);
+  });
+}
+
+/**
+ * Run a transcript through a transformer chain
+ */
+export function formatTranscript(text: string, pipeline: TranscriptTransformer[]): string {
+  return pipeline.reduce((current, transformer) => transformer.apply(current), text);
+}
+
+export { TranscriptTransformer, TransformerFactory } from './transformers';
+export { SPOKEN_FORMS, SpokenForms, CaseStyle } from './spoken-forms';
@@ -0,0 +1,127 @@
+/**
+ * Built-in spoken forms per language
+ */
+
+import { SpokenSymbol } from '../config';
+
+export type CaseStyle = 'camel' | 'pascal' | 'snake' | 'kebab' | 'constant';
+
+export interface SpokenForms {
+  symbols: Record<string, SpokenSymbol>;
+  cases: Record<string, CaseStyle>;
+  // Phrases that end an identifier ("camel case user id end case")
+  caseEnd: string[];
+}
+
+// Shared by every language: code dictation is usually spoken in English
+const CODE_SYMBOLS: Record<string, SpokenSymbol> = {
+  'open paren': { text: '(', attach: 'right' },
+  'close paren': { text: ')', attach: 'left' },
+  'open bracket': { text: '[', attach: 'right' },
+  'close bracket': { text: ']', attach: 'left' },
+  'open brace': { text: '{', attach: 'right' },
+  'close brace': { text: '}', attach: 'left' },
+  'open curly': { text: '{', attach: 'right' },
+  'close curly': { text: '}', attach: 'left' },
+  'open angle': { text: '<', attach: 'right' },
+  'close angle': { text: '>', attach: 'left' },
+  'dash dash': { text: '--', attach: 'right' },
+  dash: { text: '-', attach: 'right' },
+  underscore: { text: '_', attach: 'both' },
+  dot: { text: '.', attach: 'both' },
+  slash: { text: '/', attach: 'both' },
+  backslash: { text: '\\', attach: 'both' },
+  'double colon': { text: '::', attach: 'both' },
+  backtick: { text: '`', attach: 'none' },
+  'triple backtick': { text: '```', attach: 'none' },
+  'double quote': { text: '"', attach: 'none' },
+  'single quote': { text: "'", attach: 'none' },
+  'equals sign': { text: '=', attach: 'none' },
+  'double equals': { text: '==', attach: 'none' },
+  'triple equals': { text: '===', attach: 'none' },
+  'not equals': { text: '!=', attach: 'none' },
+  'fat arrow': { text: '=>', attach: 'none' },
+  'thin arrow': { text: '->', attach: 'none' },
+  'pipe sign': { text: '|', attach: 'none' },
+  'double pipe': { text: '||', attach: 'none' },
+  ampersand: { text: '&', attach: 'none' },
+  'double ampersand': { text: '&&', attach: 'none' },
+  'at sign': { text: '@', attach: 'right' },
+  'hash sign': { text: '#', attach: 'right' },
+  'dollar sign': { text: '$', attach: 'right' },
+  'percent sign': { text: '%', attach: 'left' },
+  'plus sign': { text: '+', attach: 'none' },
+  asterisk: { text: '*', attach: 'none' },
+  tilde: { text: '~', attach: 'right' },
+  'less than': { text: '<', attach: 'none' },
+  'greater than': { text: '>', attach: 'none' },
+};
+
+const ENGLISH_CASES: Record<string, CaseStyle> = {
+  'camel case': 'camel',
+  'pascal case': 'pascal',
+  'snake case': 'snake',
+  'kebab case': 'kebab',
+  'constant case': 'constant',
+  'screaming snake case': 'constant',
+};
+
+const ENGLISH_CASE_END = ['end case'];
+
+export const SPOKEN_FORMS: Record<string, SpokenForms> = {
+  en: {
+    symbols: {
+      ...CODE_SYMBOLS,
+      comma: { text: ',', attach: 'left' },
+      'full stop': { text: '.', attach: 'left' },
+      colon: { text: ':', attach: 'left' },
+      semicolon: { text: ';', attach: 'left' },
+      'question mark': { text: '?', attach: 'left' },
+      'exclamation mark': { text: '!', attach: 'left' },
+      'new line': { text: '\n', attach: 'both' },
+      'new paragraph': { text: '\n\n', attach: 'both' },
+    },
+    cases: ENGLISH_CASES,
+    caseEnd: ENGLISH_CASE_END,
+  },
+  de: {
+    symbols: {
+      ...CODE_SYMBOLS,
+      komma: { text: ',', attach: 'left' },
+      doppelpunkt: { text: ':', attach: 'left' },
+      semikolon: { text: ';', attach: 'left' },
+      fragezeichen: { text: '?', attach: 'left' },
+      ausrufezeichen: { text: '!', attach: 'left' },
+      'klammer auf': { text: '(', attach: 'right' },
+      'klammer zu': { text: ')', attach: 'left' },
+      'neue zeile': { text: '\n', attach: 'both' },
+      'neuer absatz': { text: '\n\n', attach: 'both' },
+    },
+    cases: ENGLISH_CASES,
+    caseEnd: ENGLISH_CASE_END,
+  },
+  tr: {
+    symbols: {
+      ...CODE_SYMBOLS,
+      virgül: { text: ',', attach: 'left' },
+      'iki nokta': { text: ':', attach: 'left' },
+      'noktalı virgül': { text: ';', attach: 'left' },
+      'soru işareti': { text: '?', attach: 'left' },
+      'ünlem işareti': { text: '!', attach: 'left' },
+      'parantez aç': { text: '(', attach: 'right' },
+      'parantez kapat': { text: ')', attach: 'left' },
+      'yeni satır': { text: '\n', attach: 'both' },
+      'yeni paragraf': { text: '\n\n', attach: 'both' },
+    },
+    cases: ENGLISH_CASES,
+    caseEnd: ENGLISH_CASE_END,
+  },
+};
+
+/**
+ * Spoken forms for a language (English for languages without a table)
+ */
+export function getSpokenForms(language: string): SpokenForms {
+  const base = language.toLowerCase().split(/[-_]/)[0];
+  return SPOKEN_FORMS[base] || SPOKEN_FORMS.en;
+}
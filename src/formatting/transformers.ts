@@ -0,0 +1,211 @@
+/**
+ * Built-in transcript transformers - each one maps plain text to plain text
+ */
+
+import { SpokenSymbol } from '../config';
+import { CaseStyle, SpokenForms } from './spoken-forms';
+
+export interface TranscriptTransformer {
+  readonly name: string;
+  apply(text: string): string;
+}
+
+interface Token {
+  text: string;
+  attach: NonNullable<SpokenSymbol['attach']>;
+}
+
+/**
+ * Lowercase a word and strip the punctuation Whisper puts around it
+ */
+function bareWord(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '');
+}
+
+/**
+ * Match a multi-word phrase table at each word position (longest phrase first)
+ */
+function matchPhrase<T>(
+  words: string[],
+  index: number,
+  table: Map<string, T>,
+  maxWords: number
+): { value: T; length: number } | null {
+  for (let n = Math.min(maxWords, words.length - index); n > 0; n--) {
+    const phrase = words.slice(index, index + n).map(bareWord).join(' ');
+    const value = table.get(phrase);
+    if (value !== undefined) {
+      return { value, length: n };
+    }
+  }
+  return null;
+}
+
+function buildTable<T>(entries: Record<string, T>): { table: Map<string, T>; maxWords: number } {
+  const table = new Map<string, T>();
+  let maxWords = 1;
+  for (const [phrase, value] of Object.entries(entries)) {
+    const words = phrase.toLowerCase().trim().split(/\s+/);
+    table.set(words.join(' '), value);
+    maxWords = Math.max(maxWords, words.length);
+  }
+  return { table, maxWords };
+}
+
+/**
+ * "open paren x close paren" -> "(x)", "dash dash force" -> "--force"
+ */
+export function createSymbolTransformer(symbols: Record<string, SpokenSymbol>): TranscriptTransformer {
+  const { table, maxWords } = buildTable(symbols);
+
+  return {
+    name: 'spoken-symbols',
+    apply(text: string): string {
+      const words = text.split(/ +/).filter(Boolean);
+      const tokens: Token[] = [];
+
+      for (let i = 0; i < words.length; ) {
+        const match = matchPhrase(words, i, table, maxWords);
+        if (match) {
+          tokens.push({ text: match.value.text, attach: match.value.attach || 'none' });
+          i += match.length;
+
+          // Keep sentence punctuation after symbols like ")" but not after "comma" or "new line"
+          const trailing = /[.?!]+$/.exec(words[i - 1]);
+          if (trailing && /^[^\p{L}\p{N}\s.,;:?!]+$/u.test(match.value.text)) {
+            tokens.push({ text: trailing[0], attach: 'left' });
+          }
+        } else {
+          tokens.push({ text: words[i], attach: 'none' });
+          i++;
+        }
+      }
+
+      let result = '';
+      tokens.forEach((token, i) => {
+        const previous = tokens[i - 1];
+        const joined =
+          !previous ||
+          previous.attach === 'right' ||
+          previous.attach === 'both' ||
+          token.attach === 'left' ||
+          token.attach === 'both';
+        result += (joined ? '' : ' ') + token.text;
+      });
+
+      return result;
+    },
+  };
+}
+
+function formatIdentifier(words: string[], style: CaseStyle): string {
+  const capitalize = (w: string) => w.charAt(0).toUpperCase() + w.slice(1);
+
+  switch (style) {
+    case 'camel':
+      return words.map((w, i) => (i === 0 ? w : capitalize(w))).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+    case 'snake':
+      return words.join('_');
+    case 'kebab':
+      return words.join('-');
+    case 'constant':
+      return words.join('_').toUpperCase();
+  }
+}
+
+// Words an identifier takes when nothing ends it earlier
+const MAX_IDENTIFIER_WORDS = 4;
+
+/**
+ * "camel case user id" -> "userId"
+ *
+ * Takes the words up to an end phrase ("camel case user id end case"), the next
+ * punctuation (Whisper marks pauses with commas) or MAX_IDENTIFIER_WORDS words,
+ * whichever comes first, so the rest of a sentence is not swallowed.
+ */
+export function createIdentifierTransformer(
+  cases: Record<string, CaseStyle>,
+  caseEnd: string[] = []
+): TranscriptTransformer {
+  const { table, maxWords } = buildTable(cases);
+  const end = buildTable(Object.fromEntries(caseEnd.map((phrase) => [phrase, true])));
+
+  return {
+    name: 'identifiers',
+    apply(text: string): string {
+      const words = text.split(/ +/).filter(Boolean);
+      const output: string[] = [];
+
+      for (let i = 0; i < words.length; ) {
+        const match = matchPhrase(words, i, table, maxWords);
+        if (!match) {
+          output.push(words[i]);
+          i++;
+          continue;
+        }
+
+        const parts: string[] = [];
+        let rest = '';
+        let j = i + match.length;
+
+        while (j < words.length && !matchPhrase(words, j, table, maxWords)) {
+          const stop = matchPhrase(words, j, end.table, end.maxWords);
+          if (stop) {
+            // Keep punctuation said with the end phrase ("end case.")
+            rest = /[^\p{L}\p{N}]*$/u.exec(words[j + stop.length - 1])![0];
+            j += stop.length;
+            break;
+          }
+          if (parts.length === MAX_IDENTIFIER_WORDS) break;
+
+          const word = /^([\p{L}\p{N}]+)(.*)$/su.exec(words[j]);
+          if (!word) break;
+
+          parts.push(word[1].toLowerCase());
+          j++;
+          if (word[2]) {
+            rest = word[2];
+            break;
+          }
+        }
+
+        if (parts.length === 0) {
+          // Nothing to format - keep the words as spoken
+          output.push(...words.slice(i, i + match.length));
+          i += match.length;
+          continue;
+        }
+
+        output.push(formatIdentifier(parts, match.value) + rest);
+        i = j;
+      }
+
+      return output.join(' ');
+    },
+  };
+}
+
+/**
+ * Collapse repeated spaces and remove spaces around line breaks
+ */
+export function createWhitespaceTransformer(): TranscriptTransformer {
+  return {
+    name: 'whitespace',
+    apply(text: string): string {
+      return text
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .trim();
+    },
+  };
+}
+
+export type TransformerFactory = (forms: SpokenForms) => TranscriptTransformer;
+
+export const BUILTIN_TRANSFORMERS: Record<string, TransformerFactory> = {
+  'spoken-symbols': (forms) => createSymbolTransformer(forms.symbols),
+  identifiers: (forms) => createIdentifierTransformer(forms.cases, forms.caseEnd),
+  whitespace: () => createWhitespaceTransformer(),
+};
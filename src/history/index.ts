@@ -0,0 +1,240 @@
+/**
+ * Transcript history - every command is appended to history.jsonl
+ * in the config directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir, AudioRetentionConfig } from '../config';
+import { saveToWav } from '../utils/audio';
+
+// Bytes read from the end of the file to find the last id
+const TAIL_BYTES = 64 * 1024;
+
+export interface HistoryEntry {
+  id: number;
+  // ISO 8601
+  timestamp: string;
+  keyword: string;
+  model: string;
+  // Spoken language
+  language: string;
+  // translate: the text is Whisper's English translation
+  task?: 'transcribe' | 'translate';
+  // Command audio length (seconds)
+  duration: number;
+  // Time from end of recording to transcript (seconds)
+  latency: number;
+  // Transcript as recognized
+  text: string;
+  // Text that was sent after vocabulary, commands and formatting (empty if nothing was sent)
+  output: string;
+  // Voice command phrase, if one was recognized
+  command?: string;
+  // Command audio file in the audio directory (recording.keepAudio)
+  audio?: string;
+}
+
+export interface CommandAudio {
+  // Raw PCM (Int16 mono)
+  pcm: Buffer;
+  sampleRate: number;
+}
+
+export interface PruneResult {
+  removed: number;
+  freedBytes: number;
+  remaining: number;
+  remainingBytes: number;
+}
+
+export function getHistoryPath(): string {
+  return path.join(getConfigDir(), 'history.jsonl');
+}
+
+/**
+ * Directory holding command audio, one WAV per history entry
+ */
+export function getAudioDir(): string {
+  return path.join(getConfigDir(), 'audio');
+}
+
+/**
+ * Path of an entry's audio, or null if none was kept (or it was pruned)
+ */
+export function getEntryAudioPath(entry: HistoryEntry): string | null {
+  if (!entry.audio) return null;
+  const file = path.join(getAudioDir(), entry.audio);
+  return fs.existsSync(file) ? file : null;
+}
+
+/**
+ * Find the id of the last entry without reading the whole file
+ */
+function readLastId(file: string): number {
+  let fd: number;
+  try {
+    fd = fs.openSync(file, 'r');
+  } catch {
+    return 0;
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+
+    const lines = buffer.toString('utf-8').split('\n').reverse();
+    for (const line of lines) {
+      const entry = parseLine(line);
+      if (entry) return entry.id;
+    }
+    return 0;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function parseLine(line: string): HistoryEntry | null {
+  if (!line.trim()) return null;
+  try {
+    const entry = JSON.parse(line);
+    return typeof entry.id === 'number' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append a command to the history
+ * @param audio - Command audio to keep next to the entry
+ * @returns The stored entry with its id
+ */
+export function appendHistory(entry: Omit<HistoryEntry, 'id' | 'timestamp'>, audio?: CommandAudio): HistoryEntry {
+  const file = getHistoryPath();
+  // Read for every entry: the listener and the CLI (retry) both append to the file
+  const id = readLastId(file) + 1;
+
+  const stored: HistoryEntry = { id, timestamp: new Date().toISOString(), ...entry };
+
+  if (audio) {
+    fs.mkdirSync(getAudioDir(), { recursive: true });
+    stored.audio = `${stored.id}.wav`;
+    saveToWav(audio.pcm, path.join(getAudioDir(), stored.audio), audio.sampleRate, 1);
+  }
+
+  fs.mkdirSync(getConfigDir(), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(stored) + '\n', { mode: 0o600 });
+  return stored;
+}
+
+/**
+ * Read all history entries, oldest first
+ */
+export function readHistory(): HistoryEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(getHistoryPath(), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  return content
+    .split('\n')
+    .map(parseLine)
+    .filter((entry): entry is HistoryEntry => entry !== null);
+}
+
+export function findHistoryEntry(id: number): HistoryEntry | null {
+  return readHistory().find((entry) => entry.id === id) || null;
+}
+
+/**
+ * Entries whose transcript or sent text contains the query (case-insensitive)
+ */
+export function searchHistory(query: string): HistoryEntry[] {
+  const needle = query.toLowerCase();
+  return readHistory().filter(
+    (entry) => entry.text.toLowerCase().includes(needle) || entry.output.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Serialize entries for export
+ */
+export function exportHistory(entries: HistoryEntry[], format: 'json' | 'jsonl' | 'csv'): string {
+  switch (format) {
+    case 'jsonl':
+      return entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+    case 'csv': {
+      const columns: (keyof HistoryEntry)[] = [
+        'id',
+        'timestamp',
+        'keyword',
+        'model',
+        'language',
+        'task',
+        'duration',
+        'latency',
+        'text',
+        'output',
+        'command',
+        'audio',
+      ];
+      const rows = entries.map((entry) => columns.map((c) => csvField(entry[c])).join(','));
+      return [columns.join(','), ...rows].join('\n') + '\n';
+    }
+    case 'json':
+      return JSON.stringify(entries, null, 2) + '\n';
+  }
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Delete kept command audio that is too old, then the oldest files
+ * until the total fits the size limit (0 disables a limit)
+ */
+export function pruneAudio(retention: AudioRetentionConfig, now = Date.now(), dir = getAudioDir()): PruneResult {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir).filter((name) => name.endsWith('.wav'));
+  } catch {
+    return { removed: 0, freedBytes: 0, remaining: 0, remainingBytes: 0 };
+  }
+
+  const files = names
+    .map((name) => {
+      const stat = fs.statSync(path.join(dir, name));
+      return { name, size: stat.size, mtimeMs: stat.mtimeMs };
+    })
+    .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+  const maxAgeMs = retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  const maxBytes = retention.maxSizeMB * 1024 * 1024;
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  let removed = 0;
+  let freedBytes = 0;
+
+  for (const file of files) {
+    const tooOld = maxAgeMs > 0 && now - file.mtimeMs > maxAgeMs;
+    const overSize = maxBytes > 0 && total > maxBytes;
+    if (!tooOld && !overSize) continue;
+
+    try {
+      fs.unlinkSync(path.join(dir, file.name));
+      total -= file.size;
+      freedBytes += file.size;
+      removed++;
+    } catch {
+      // Ignore files that vanished meanwhile
+    }
+  }
+
+  return { removed, freedBytes, remaining: files.length - removed, remainingBytes: total };
+}
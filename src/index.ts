@@ -1,97 +1,697 @@
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
-import { loadConfig } from './config';
-import { SherpaOnnxDetector } from './wake-word';
-import { STTManager } from './stt';
-import { sendToClaudeCode } from './terminal/input-injector';
-import { saveToWav, createTempAudioPath, safeDeleteFile } from './utils/audio';
-import { areAllModelsInstalled } from './model';
+import { EventEmitter } from 'events';
+import {
+  loadConfig,
+  getConfigDir,
+  setConfigValue,
+  getConfigValue,
+  Config,
+  AudioSourceConfig,
+  STTConfig,
+  RecordingConfig,
+  KeywordAction,
+} from './config';
+import { SherpaOnnxDetector, getActiveKeywords } from './wake-word';
+import {
+  STTManager,
+  StreamingSession,
+  TranscriptionResult,
+  SHERPA_MODELS,
+  listModels,
+  EngineStatus,
+  formatEngineStatus,
+} from './stt';
+import { ControlServer } from './control';
+import { getKeywordAction } from './actions';
+import {
+  parseVoiceCommand,
+  runVoiceCommand,
+  getOutputText,
+  ParsedUtterance,
+  VoiceCommandContext,
+} from './voice-commands';
+import { createFormattingPipeline, formatTranscript, TranscriptTransformer } from './formatting';
+import { loadVocabulary, applyVocabulary, getHotwords } from './vocabulary';
+import { appendHistory, pruneAudio } from './history';
+import { filterTranscript } from './filter';
+import { retryUtterance, loadHistoryUtterance, Utterance, RetryResult } from './retry';
+import { checkModelsInstalled } from './model';
+import { bufferToFloat32 } from './utils/silence';
 
 let detector: SherpaOnnxDetector | null = null;
 let sttManager: STTManager | null = null;
+let streamingSession: StreamingSession | null = null;
+let controlServer: ControlServer | null = null;
+let sttConfig: STTConfig | null = null;
+let activeRecordingConfig: RecordingConfig | null = null;
+// Formatting pipelines by language (spoken forms differ per language)
+const formattingPipelines = new Map<string, TranscriptTransformer[]>();
+// Last dictated command, for "redo" and `retry`
+let lastUtterance: Utterance | null = null;
+let startedAt = 0;
+
+// Listener events, streamed to control API clients
+const events = new EventEmitter();
+
+// Events after which the state file is rewritten
+const STATE_EVENTS = new Set(['keywords', 'model', 'fallback', 'paused', 'resumed', 'transcript', 'error']);
+
+function publish(event: string, data?: unknown): void {
+  events.emit('event', { event, data });
+  if (startedAt && STATE_EVENTS.has(event)) {
+    writeListenerState();
+  }
+}
+
+/**
+ * What the running listener has loaded (control API /status and the state file)
+ */
+export interface ListenerStatus {
+  state: 'stopped' | 'paused' | 'listening' | 'recording';
+  keywords: string[];
+  provider?: string;
+  model?: string;
+  language?: string;
+  sttReady: boolean;
+  engines: EngineStatus[];
+  pid: number;
+  // Seconds since the listener started (when the status was taken)
+  uptime: number;
+}
+
+/**
+ * Status of the running listener, kept up to date by the listener itself
+ */
+export function getStateFile(): string {
+  return path.join(getConfigDir(), 'daemon-state.json');
+}
+
+/**
+ * Read the status written by a running listener
+ */
+export function readListenerState(): ListenerStatus | null {
+  try {
+    return JSON.parse(fs.readFileSync(getStateFile(), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function getListenerStatus(): ListenerStatus {
+  return {
+    state: detector?.getState() || 'stopped',
+    keywords: detector?.getActiveKeywords() || [],
+    provider: sttConfig?.provider,
+    model: sttManager?.getProvider().model || sttConfig?.model,
+    language: sttConfig?.language,
+    sttReady: sttManager?.isReady() || false,
+    engines: sttManager?.getStatus() || [],
+    pid: process.pid,
+    uptime: startedAt ? Math.round((Date.now() - startedAt) / 1000) : 0,
+  };
+}
+
+function writeListenerState(): void {
+  try {
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    fs.writeFileSync(getStateFile(), JSON.stringify(getListenerStatus(), null, 2));
+  } catch (error) {
+    console.warn(`Could not write ${getStateFile()}: ${(error as Error).message}`);
+  }
+}
+
+export interface ListenerOptions {
+  /** Override recording.source from config */
+  source?: AudioSourceConfig;
+}
 
 /**
  * Start the voice listener
  */
-export async function startListener(): Promise<void> {
+export async function startListener(options: ListenerOptions = {}): Promise<void> {
   const config = loadConfig();
+  const recordingConfig = options.source
+    ? { ...config.recording, source: options.source }
+    : config.recording;
 
   console.log('');
   console.log('Claude Voice Light');
   console.log('==================');
   console.log('');
 
-  // Check if models are installed
-  if (!areAllModelsInstalled()) {
+  // Check if models are installed (the STT engine reports its own problems below)
+  const models = checkModelsInstalled();
+  if (!models.kws || !models.streaming) {
     console.error('Required models are not installed.');
     console.error('Run: claude-voice-light model download');
     process.exit(1);
   }
 
-  console.log(`Wake word: "${config.wakeWord.keyword}"`);
-  console.log(`Language: ${config.stt.language}`);
-  console.log(`STT Model: ${config.stt.model}`);
+  console.log(`Wake word: ${formatKeywords(getActiveKeywords(config.wakeWord))}`);
+  const languages = config.stt.language === 'auto' && config.stt.languages.length > 0;
+  console.log(`Language: ${config.stt.language}${languages ? ` (${config.stt.languages.join(', ')})` : ''}`);
+  if (config.stt.task === 'translate') {
+    console.log('Task: translate to English');
+  }
+  if (config.stt.provider && config.stt.provider !== 'sherpa-onnx') {
+    console.log(`STT Provider: ${config.stt.provider}`);
+  } else {
+    console.log(`STT Model: ${config.stt.model}`);
+  }
+  if (config.stt.fallback.length > 0) {
+    console.log(`STT fallback: ${config.stt.fallback.join(', ')}`);
+  }
+  if (config.stt.streaming) {
+    console.log(`Streaming model: ${config.stt.streamingModel}`);
+  }
+  if (recordingConfig.source.type !== 'microphone') {
+    console.log(`Audio source: ${describeSource(recordingConfig.source)}`);
+  }
   console.log('');
+
+  // Initialize STT - a broken model stops the listener here rather than failing every command
+  let manager: STTManager;
+  try {
+    manager = new STTManager(config.stt, recordingConfig, getBiasing(config));
+  } catch (error) {
+    console.error(`Speech recognition could not start: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  // A streaming model that does not load would leave commands without partial results
+  if (!(await manager.initialize()) || manager.getStreamingStatus()?.state === 'failed') {
+    console.error('Speech recognition could not start:');
+    printEngineReport(manager.getStatus(), console.error);
+    manager.dispose();
+    process.exit(1);
+  }
+  if (manager.getStatus().some((e) => e.state !== 'ready' && e.error)) {
+    console.warn(`Using ${manager.getProvider().model}, these engines failed:`);
+    printEngineReport(manager.getStatus(), console.warn);
+    console.log('');
+  }
+
   console.log('Press Ctrl+C to stop.');
   console.log('');
 
-  // Initialize STT
-  sttManager = new STTManager(config.stt);
+  sttConfig = config.stt;
+  activeRecordingConfig = recordingConfig;
+  sttManager = manager;
+
+  // Transcript post-processing ("open paren" -> "("), built now to report config errors early
+  getFormattingPipeline(config, config.stt.language);
 
   // Initialize wake word detector
-  detector = new SherpaOnnxDetector(config.wakeWord, config.recording);
+  detector = new SherpaOnnxDetector(config.wakeWord, recordingConfig);
+
+  // In-flight commands, so finite sources can drain before stopping
+  const pending = new Set<Promise<void>>();
 
-  detector.on('wakeword', () => {
-    console.log('Listening...');
+  detector.on('wakeword', (keyword: string) => {
+    console.log(`Listening... (${keyword})`);
+    publish('wakeword', { keyword });
   });
 
-  detector.on('command', async (audioBuffer: Buffer) => {
-    const tempPath = createTempAudioPath('cvl');
+  detector.on('triggered', (keyword: string) => {
+    console.log(`Listening... (push-to-talk, ${keyword})`);
+    publish('triggered', { keyword });
+  });
 
-    try {
-      // Save audio to WAV file
-      saveToWav(audioBuffer, tempPath, config.recording.sampleRate, 1);
+  // Streaming mode: transcribe while the command is being spoken
+  detector.on('listening', () => {
+    publish('listening');
 
-      // Transcribe
-      const transcript = await sttManager!.transcribe(tempPath);
+    streamingSession = sttManager?.createStreamingSession() || null;
+    if (!streamingSession) return;
 
-      if (transcript?.trim()) {
-        console.log(`> ${transcript}`);
+    streamingSession.on('partial', (text: string) => {
+      if (text) showPartial(text);
+      publish('partial', { text });
+    });
+    streamingSession.on('final', () => {
+      // Endpoint reached - stop recording without waiting for the silence timeout
+      detector?.endpointReached();
+    });
+  });
 
-        // Send to terminal
-        await sendToClaudeCode(transcript);
-      } else {
-        console.log('(no speech detected)');
-      }
-    } catch (error) {
-      console.error('Transcription error:', error);
-    } finally {
-      // Clean up temp file
-      safeDeleteFile(tempPath);
-    }
+  detector.on('commandAudio', (data: Buffer) => {
+    streamingSession?.accept(bufferToFloat32(data));
+  });
+
+  detector.on('command', (audioBuffer: Buffer, keyword: string) => {
+    const session = streamingSession;
+    streamingSession = null;
+    const durationMs = Math.round((audioBuffer.length / 2 / recordingConfig.sampleRate) * 1000);
+    publish('command', { keyword, durationMs });
+
+    const task = handleCommand(audioBuffer, keyword, config, session);
+    pending.add(task);
+    task.finally(() => pending.delete(task));
+  });
+
+  // Finite sources (files, stdin) end - finish pending commands and stop
+  detector.on('end', async () => {
+    console.log('Audio source ended.');
+    await Promise.all(pending);
+    stopListener();
+  });
+
+  detector.on('paused', () => {
+    console.log('Paused.');
+    publish('paused');
+  });
+
+  detector.on('resumed', () => {
+    console.log('Resumed.');
+    publish('resumed');
   });
 
   detector.on('error', (error) => {
     console.error('Wake word detector error:', error);
+    publish('error', { message: (error as Error).message });
   });
 
   // Initialize and start
   await detector.initialize();
   await detector.start();
+  startedAt = Date.now();
+
+  if (config.control.enabled) {
+    await startControlServer(config);
+  }
 
+  // `start` waits for this file to know the listener is up
+  writeListenerState();
   console.log('Listening for wake word...');
 }
 
+/**
+ * Start the local control API (HTTP + WebSocket events)
+ */
+async function startControlServer(config: Config): Promise<void> {
+  const server = new ControlServer(
+    config.control,
+    {
+      getStatus: () => ({ ...getListenerStatus() }),
+      pause: () => detector?.pause(),
+      resume: () => detector?.resume(),
+      trigger: (keyword, hold) => {
+        if (!detector) return null;
+        if (hold) {
+          return detector.triggerCommand(keyword, { hold: true }) ? 'started' : null;
+        }
+        return detector.toggleCommand(keyword);
+      },
+      release: () => {
+        const recording = detector?.getState() === 'recording';
+        detector?.finishCommand();
+        return recording;
+      },
+      setKeywords: switchKeywords,
+      setModel: switchModel,
+      retry: retryLast,
+    },
+    events
+  );
+
+  try {
+    await server.start();
+    controlServer = server;
+    console.log(`Control API: ${server.getAddress()}`);
+  } catch (error) {
+    console.error('Failed to start control API:', (error as Error).message);
+  }
+}
+
+/**
+ * Switch the active wake words while listening
+ */
+async function switchKeywords(keywords: string[]): Promise<void> {
+  if (!detector) {
+    throw new Error('Not listening');
+  }
+
+  await detector.setActiveKeywords(keywords);
+  console.log(`Wake word: ${formatKeywords(detector.getActiveKeywords())}`);
+  publish('keywords', { keywords: detector.getActiveKeywords() });
+}
+
+/**
+ * Switch the STT model while listening
+ */
+async function switchModel(model: string): Promise<void> {
+  const info = listModels().find((m) => m.id === model);
+  if (!info) {
+    throw new Error(`Unknown model: ${model}. Available: ${Object.keys(SHERPA_MODELS).join(', ')}`);
+  }
+  if (!info.installed) {
+    throw new Error(`Model not installed: ${model}. Run: claude-voice-light model download`);
+  }
+
+  if (sttConfig!.provider && sttConfig!.provider !== 'sherpa-onnx') {
+    throw new Error(`Models are chosen by the server for stt.provider ${sttConfig!.provider}`);
+  }
+
+  const config = { ...sttConfig!, model };
+  const manager = new STTManager(config, activeRecordingConfig || undefined, getBiasing(loadConfig()));
+  // A fallback coming up instead does not count as switching to the model
+  await manager.initialize();
+  const [engine] = manager.getStatus();
+  if (engine.state !== 'ready') {
+    manager.dispose();
+    // Keep the current model
+    const reason = engine.error?.message || `${model} did not initialize`;
+    throw new Error(engine.error?.hint ? `${reason}. ${engine.error.hint}` : reason);
+  }
+
+  sttConfig = config;
+  sttManager?.dispose();
+  sttManager = manager;
+  console.log(`STT Model: ${model}`);
+  publish('model', { model });
+}
+
+/**
+ * Print the engines that failed to start, with what to do about it
+ */
+function printEngineReport(engines: EngineStatus[], log: (line: string) => void): void {
+  for (const engine of engines.filter((e) => e.error && e.state !== 'ready')) {
+    formatEngineStatus(engine).forEach((line) => log(`  ${line}`));
+  }
+}
+
+/**
+ * Formatting pipeline for a transcript language (empty when formatting is off or invalid)
+ */
+function getFormattingPipeline(config: Config, language: string): TranscriptTransformer[] {
+  if (!config.formatting.enabled) {
+    return [];
+  }
+
+  let pipeline = formattingPipelines.get(language);
+  if (!pipeline) {
+    try {
+      pipeline = createFormattingPipeline(config.formatting, language);
+    } catch (error) {
+      console.warn(`Formatting disabled: ${(error as Error).message}`);
+      pipeline = [];
+    }
+    formattingPipelines.set(language, pipeline);
+  }
+  return pipeline;
+}
+
+/**
+ * Vocabulary terms passed to models that support hotwords
+ */
+function getBiasing(config: Config): { hotwords: string[]; hotwordsScore: number } {
+  return { hotwords: getHotwords(config.vocabulary), hotwordsScore: config.vocabulary.hotwordsScore };
+}
+
+// Changes requested by spoken control phrases
+const voiceCommandContext: VoiceCommandContext = {
+  switchKeyword: (keyword) => switchKeywords([keyword]),
+  setConfig: async (key, value) => {
+    setConfigValue(key, value);
+    const applied = getConfigValue(key);
+
+    if (key === 'wakeWord.keyword') {
+      await switchKeywords(Array.isArray(applied) ? applied : [String(applied)]);
+    } else if (key === 'stt.model') {
+      await switchModel(String(applied));
+    } else {
+      console.log(`Set ${key} = ${JSON.stringify(applied)} (takes effect after restart)`);
+    }
+  },
+  redo: async () => {
+    await retryLast();
+  },
+};
+
+/**
+ * Re-transcribe the last command (or a history entry) with a larger model
+ */
+async function retryLast(options: { id?: number; model?: string } = {}): Promise<RetryResult> {
+  if (!sttManager) {
+    throw new Error('Listener is not running');
+  }
+
+  const utterance =
+    options.id !== undefined ? loadHistoryUtterance(options.id) : lastUtterance || loadHistoryUtterance();
+  const result = await retryUtterance(utterance, sttManager, loadConfig(), {
+    model: options.model,
+    pipeline: (language) => getFormattingPipeline(loadConfig(), language),
+  });
+
+  // A second redo replaces the corrected text
+  lastUtterance = { ...utterance, output: result.output, submitted: false };
+  publish('retry', { ...result, keyword: utterance.keyword });
+  return result;
+}
+
+/**
+ * Transcribe a recorded command and route it to the keyword's action
+ */
+async function handleCommand(
+  audioBuffer: Buffer,
+  keyword: string,
+  config: Config,
+  session: StreamingSession | null
+): Promise<void> {
+  const recordedAt = Date.now();
+
+  try {
+    let result: TranscriptionResult;
+
+    if (session && config.stt.task === 'transcribe') {
+      // Already transcribed while recording
+      const text = session.finish();
+      clearPartial();
+      const first: TranscriptionResult = {
+        text,
+        model: config.stt.streamingModel,
+        language: config.stt.language === 'auto' ? config.stt.languages[0] || 'en' : config.stt.language,
+        task: 'transcribe',
+      };
+      const modified = await sttManager!.applyTaskModifier(audioBuffer, config.recording.sampleRate, first);
+      result = await sttManager!.escalate(audioBuffer, config.recording.sampleRate, modified);
+    } else {
+      // Streaming models cannot translate
+      if (session) {
+        session.finish();
+        clearPartial();
+      }
+      // Transcribe in memory
+      result = await sttManager!.recognize(audioBuffer, config.recording.sampleRate);
+    }
+
+    if (result.fallback) {
+      publish('fallback', { ...result.fallback, keyword });
+    }
+    if (result.escalation) {
+      publish('escalation', { ...result.escalation, to: result.model, keyword });
+    }
+
+    const latency = (Date.now() - recordedAt) / 1000;
+    const recognized = result.text;
+
+    // Drop what models emit for silence or noise ("[Music]", "Thank you.")
+    const filtered = filterTranscript(recognized, config.filter, {
+      audio: audioBuffer,
+      sampleRate: config.recording.sampleRate,
+      silenceAmplitude: config.recording.silenceAmplitude,
+      hallucinations: config.stt.hallucinations,
+    });
+    for (const item of filtered.dropped) {
+      console.log(`- dropped ${item}`);
+    }
+    if (filtered.dropped.length > 0) {
+      publish('filtered', { text: recognized, dropped: filtered.dropped, keyword });
+    }
+    let transcript = filtered.text;
+
+    if (transcript?.trim()) {
+      console.log(`> ${config.stt.language === 'auto' ? `[${result.language}] ` : ''}${transcript}`);
+      publish('transcript', { text: transcript, keyword, language: result.language });
+
+      // Fix misheard technical terms
+      if (config.vocabulary.enabled) {
+        const corrected = applyVocabulary(transcript, loadVocabulary(), config.vocabulary);
+        if (corrected !== transcript) {
+          console.log(`= ${corrected}`);
+          transcript = corrected;
+        }
+      }
+
+      // Control phrases ("cancel that", "press escape", ...) are handled before sending
+      const parsed = config.commands.enabled
+        ? parseVoiceCommand(transcript, config.commands, Object.keys(config.wakeWord.keywords))
+        : { text: transcript, command: null };
+
+      // Translations are English whatever was spoken
+      const textLanguage = result.task === 'translate' ? 'en' : result.language;
+      const formatted = formatTranscript(parsed.text, getFormattingPipeline(config, textLanguage));
+      if (formatted !== parsed.text) {
+        console.log(`= ${formatted}`);
+        parsed.text = formatted;
+      }
+      if (parsed.command) {
+        console.log(`Command: "${parsed.phrase}"${parsed.arg ? ` (${parsed.arg})` : ''}`);
+        publish('voiceCommand', { phrase: parsed.phrase, type: parsed.command.type, arg: parsed.arg });
+      }
+
+      // Recorded before sending so a failed injection can be recovered with `history resend`
+      if (config.history.enabled) {
+        recordHistory(
+          {
+            keyword,
+            model: result.model,
+            language: result.language,
+            task: result.task,
+            duration: audioBuffer.length / 2 / config.recording.sampleRate,
+            latency,
+            text: recognized,
+            output: getOutputText(parsed),
+            command: parsed.command ? parsed.phrase : undefined,
+          },
+          audioBuffer,
+          config
+        );
+      }
+
+      // Send to the keyword's sink (Claude Code by default)
+      const action = getKeywordAction(config.wakeWord, keyword);
+      if (parsed.command?.type !== 'redo') {
+        lastUtterance = {
+          audio: audioBuffer,
+          sampleRate: config.recording.sampleRate,
+          keyword,
+          output: getOutputText(parsed),
+          submitted: isSubmitted(parsed, action),
+          task: result.task,
+        };
+      }
+      await runVoiceCommand(parsed, action, keyword, config.commands, voiceCommandContext);
+    } else {
+      console.log('(no speech detected)');
+      lastUtterance = {
+        audio: audioBuffer,
+        sampleRate: config.recording.sampleRate,
+        keyword,
+        output: '',
+        submitted: false,
+        task: result.task,
+      };
+
+      // Kept audio is most useful exactly when nothing was recognized
+      if (config.history.enabled && config.recording.keepAudio) {
+        recordHistory(
+          {
+            keyword,
+            model: result.model,
+            language: result.language,
+            task: result.task,
+            duration: audioBuffer.length / 2 / config.recording.sampleRate,
+            latency,
+            text: recognized,
+            output: '',
+          },
+          audioBuffer,
+          config
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Transcription error:', error);
+    publish('error', { message: (error as Error).message });
+  }
+}
+
+/**
+ * Whether Enter is pressed after the text of an utterance
+ */
+function isSubmitted(parsed: ParsedUtterance, action: KeywordAction): boolean {
+  if (!parsed.command) {
+    return action.pressEnter !== false;
+  }
+  return parsed.command.type === 'send';
+}
+
+/**
+ * Append to the history, keeping the command audio when recording.keepAudio is on
+ */
+function recordHistory(entry: Parameters<typeof appendHistory>[0], audioBuffer: Buffer, config: Config): void {
+  const keep = config.recording.keepAudio;
+  try {
+    appendHistory(entry, keep ? { pcm: audioBuffer, sampleRate: config.recording.sampleRate } : undefined);
+  } catch (error) {
+    console.error('Failed to write history:', (error as Error).message);
+    return;
+  }
+
+  if (keep) {
+    try {
+      const pruned = pruneAudio(config.recording.audioRetention);
+      if (pruned.removed > 0) {
+        console.log(`Pruned ${pruned.removed} kept audio file(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to prune kept audio:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Show a live partial transcript (rewritten in place on a terminal)
+ */
+function showPartial(text: string): void {
+  if (process.stdout.isTTY) {
+    process.stdout.write(`\r\x1b[K~ ${text}`);
+  } else {
+    console.log(`~ ${text}`);
+  }
+}
+
+function clearPartial(): void {
+  if (process.stdout.isTTY) {
+    process.stdout.write('\r\x1b[K');
+  }
+}
+
+function formatKeywords(keywords: string[]): string {
+  return keywords.map((k) => `"${k}"`).join(', ');
+}
+
+function describeSource(source: AudioSourceConfig): string {
+  return source.path ? `${source.type} (${source.path})` : source.type;
+}
+
 /**
  * Stop the listener
  */
 export function stopListener(): void {
+  if (controlServer) {
+    controlServer.stop();
+    controlServer = null;
+  }
   if (detector) {
     detector.cleanup();
     detector = null;
   }
+  streamingSession = null;
+  sttManager?.dispose();
   sttManager = null;
+  activeRecordingConfig = null;
+  formattingPipelines.clear();
+  if (startedAt) {
+    try {
+      fs.unlinkSync(getStateFile());
+    } catch {
+      // Ignore cleanup errors
+    }
+    startedAt = 0;
+  }
   console.log('Stopped.');
 }
 
@@ -107,7 +707,52 @@ process.on('SIGTERM', () => {
   process.exit(0);
 });
 
+// Push-to-talk: SIGUSR1 starts recording a command, a second one stops it
+process.on('SIGUSR1', () => {
+  if (detector && !detector.toggleCommand()) {
+    console.log('Push-to-talk ignored (not listening).');
+  }
+});
+
 // Export for CLI
-export { loadConfig, getConfigPath, getConfigDir, getConfigValue, setConfigValue, resetConfig } from './config';
-export { checkModelsInstalled, downloadAllModels, getModelStatus } from './model';
+export { loadConfig, saveConfig, getConfigPath, getConfigDir, getConfigValue, setConfigValue, resetConfig } from './config';
+export { checkModelsInstalled, downloadAllModels, downloadSttModel, getModelStatus } from './model';
 export { getPlatformSummary, getInstallInstructions } from './platform';
+export { createAudioSource, parseAudioSourceSpec } from './audio';
+export { getActiveKeywords, buildKeyword } from './wake-word';
+export { captureAudio, frameAmplitudes, computeCalibration } from './calibration';
+export {
+  STTManager,
+  SHERPA_MODELS,
+  listModels,
+  STTProvider,
+  STTProviderFactory,
+  STTProviderOptions,
+  registerProvider,
+  EngineStatus,
+  STTInitError,
+  formatEngineStatus,
+} from './stt';
+export { readAudioFile } from './utils/wav';
+export { readControlEndpoint, controlRequest, ControlEndpoint } from './control';
+export { loadHistoryUtterance, retryUtterance, Utterance } from './retry';
+export { createFormattingPipeline, formatTranscript } from './formatting';
+export {
+  readHistory,
+  findHistoryEntry,
+  searchHistory,
+  exportHistory,
+  getHistoryPath,
+  getEntryAudioPath,
+  pruneAudio,
+  HistoryEntry,
+} from './history';
+export { getKeywordAction, runKeywordAction } from './actions';
+export { sendText } from './voice-commands';
+export {
+  loadVocabulary,
+  applyVocabulary,
+  addVocabularyTerm,
+  removeVocabularyTerm,
+  getVocabularyPath,
+} from './vocabulary';
@@ -7,7 +7,9 @@ import * as tar from 'tar';
 import unbzip2 from 'unbzip2-stream';
 import { getModelsDir, getLocalModelsDir, loadConfig } from './config';
 import { SHERPA_MODELS } from './stt/providers/sherpa-onnx';
+import { STREAMING_MODELS } from './stt/providers/sherpa-onnx-streaming';
 import { KWS_MODEL } from './wake-word';
+import { VAD_MODEL, getVadModelPath } from './endpointer';
 
 /**
  * Download a file from URL with progress indicator
@@ -95,17 +97,23 @@ async function extractTarBz2(archivePath: string, destDir: string): Promise<void
 /**
  * Check if required models are installed
  */
-export function checkModelsInstalled(): { kws: boolean; stt: boolean } {
+export function checkModelsInstalled(): { kws: boolean; stt: boolean; streaming: boolean } {
   const modelsDir = getModelsDir();
   const config = loadConfig();
 
   const kwsPath = path.join(modelsDir, KWS_MODEL.folder);
   const sttModel = SHERPA_MODELS[config.stt.model];
   const sttPath = sttModel ? path.join(modelsDir, sttModel.folder) : '';
+  // Other providers do not use an offline model
+  const offline = !config.stt.provider || config.stt.provider === 'sherpa-onnx';
+  const streamingModel = STREAMING_MODELS[config.stt.streamingModel];
+  const streamingPath = streamingModel ? path.join(modelsDir, streamingModel.folder) : '';
 
   return {
     kws: fs.existsSync(kwsPath),
-    stt: sttPath ? fs.existsSync(sttPath) : false,
+    stt: !offline || (sttPath ? fs.existsSync(sttPath) : false),
+    // Only required when streaming is enabled
+    streaming: !config.stt.streaming || (streamingPath ? fs.existsSync(streamingPath) : false),
   };
 }
 
@@ -114,7 +122,7 @@ export function checkModelsInstalled(): { kws: boolean; stt: boolean } {
  */
 export function areAllModelsInstalled(): boolean {
   const status = checkModelsInstalled();
-  return status.kws && status.stt;
+  return status.kws && status.stt && status.streaming;
 }
 
 /**
@@ -137,18 +145,46 @@ export async function downloadAllModels(): Promise<void> {
   // Download STT model
   await downloadSttModel(config.stt.model);
 
+  // Download the larger models for re-transcription and escalation when chosen
+  const larger = new Set([config.stt.retry.model]);
+  if (config.stt.escalation.enabled) {
+    larger.add(config.stt.escalation.model);
+  }
+  for (const model of larger) {
+    if (model !== 'auto' && model !== config.stt.model) {
+      await downloadSttModel(model);
+    }
+  }
+
+  // Download streaming STT model
+  if (config.stt.streaming) {
+    await downloadStreamingModel(config.stt.streamingModel);
+  }
+
+  // Download VAD model
+  if (config.recording.endpointer === 'vad') {
+    await downloadVadModel();
+  }
+
   console.log('\nAll models installed!');
 }
 
 /**
- * Download keyword spotting model
+ * Download and extract a model archive into the local models directory
+ * @param label - Human readable label for log output
+ * @param info - Model name, archive URL and extracted folder name
+ * @param archiveName - File name for the temporary archive
  */
-export async function downloadKwsModel(): Promise<void> {
+async function installModelArchive(
+  label: string,
+  info: { name: string; url: string; folder: string },
+  archiveName: string
+): Promise<void> {
   const modelsDir = getLocalModelsDir();
-  const modelPath = path.join(modelsDir, KWS_MODEL.folder);
+  const modelPath = path.join(modelsDir, info.folder);
 
   if (fs.existsSync(modelPath)) {
-    console.log(`[OK] Keyword spotter model already installed`);
+    console.log(`[OK] ${label} already installed`);
     return;
   }
 
@@ -157,24 +193,24 @@ export async function downloadKwsModel(): Promise<void> {
     fs.mkdirSync(modelsDir, { recursive: true });
   }
 
-  console.log(`Downloading ${KWS_MODEL.name} (${KWS_MODEL.size})...`);
+  console.log(`Downloading ${info.name}...`);
 
-  const archivePath = path.join(modelsDir, 'kws-model.tar.bz2');
+  const archivePath = path.join(modelsDir, archiveName);
 
   try {
     // Download using Node.js https
-    await downloadFile(KWS_MODEL.url, archivePath);
+    await downloadFile(info.url, archivePath);
 
     // Extract using Node.js streams
-    console.log('Extracting model...');
+    console.log('Extracting model files...');
     await extractTarBz2(archivePath, modelsDir);
 
-    // Clean up
+    // Cleanup archive
     fs.unlinkSync(archivePath);
 
-    console.log('[OK] Keyword spotter model installed');
+    console.log(`[OK] ${label} installed`);
   } catch (error) {
-    console.error('Failed to download KWS model:', error);
+    console.error(`Failed to download ${label}:`, error);
     // Cleanup on error
     if (fs.existsSync(archivePath)) {
       fs.unlinkSync(archivePath);
@@ -183,50 +219,67 @@ export async function downloadKwsModel(): Promise<void> {
   }
 }
 
+/**
+ * Download keyword spotting model
+ */
+export async function downloadKwsModel(): Promise<void> {
+  await installModelArchive(
+    'Keyword spotter model',
+    { ...KWS_MODEL, name: `${KWS_MODEL.name} (${KWS_MODEL.size})` },
+    'kws-model.tar.bz2'
+  );
+}
+
 /**
  * Download STT model
  */
 export async function downloadSttModel(modelId: string): Promise<void> {
   const modelInfo = SHERPA_MODELS[modelId as keyof typeof SHERPA_MODELS];
   if (!modelInfo) {
-    throw new Error(`Unknown model: ${modelId}`);
+    throw new Error(`Unknown model: ${modelId}. Run: claude-voice-light model list`);
   }
 
-  const modelsDir = getLocalModelsDir();
-  const modelPath = path.join(modelsDir, modelInfo.folder);
+  await installModelArchive(`STT model (${modelId})`, modelInfo, `${modelId}.tar.bz2`);
+}
 
-  if (fs.existsSync(modelPath)) {
-    console.log(`[OK] STT model (${modelId}) already installed`);
+/**
+ * Download streaming STT model
+ */
+export async function downloadStreamingModel(modelId: string): Promise<void> {
+  const modelInfo = STREAMING_MODELS[modelId as keyof typeof STREAMING_MODELS];
+  if (!modelInfo) {
+    throw new Error(`Unknown streaming model: ${modelId}`);
+  }
+
+  await installModelArchive(`Streaming STT model (${modelId})`, modelInfo, `${modelId}.tar.bz2`);
+}
+
+/**
+ * Download voice activity detection model (a single .onnx file)
+ */
+export async function downloadVadModel(): Promise<void> {
+  if (fs.existsSync(getVadModelPath())) {
+    console.log('[OK] VAD model already installed');
     return;
   }
 
-  // Create models directory
+  const modelsDir = getLocalModelsDir();
   if (!fs.existsSync(modelsDir)) {
     fs.mkdirSync(modelsDir, { recursive: true });
   }
 
-  console.log(`Downloading ${modelInfo.name}...`);
+  console.log(`Downloading ${VAD_MODEL.name} (${VAD_MODEL.size})...`);
 
-  const archivePath = path.join(modelsDir, `${modelId}.tar.bz2`);
+  // Renamed once complete, so an interrupted download is not taken for an installed model
+  const modelPath = path.join(modelsDir, VAD_MODEL.file);
+  const partPath = `${modelPath}.part`;
 
   try {
-    // Download using Node.js https
-    await downloadFile(modelInfo.url, archivePath);
-
-    // Extract using Node.js streams
-    console.log('Extracting model files...');
-    await extractTarBz2(archivePath, modelsDir);
-
-    // Cleanup archive
-    fs.unlinkSync(archivePath);
-
-    console.log(`[OK] STT model (${modelId}) installed`);
+    await downloadFile(VAD_MODEL.url, partPath);
+    fs.renameSync(partPath, modelPath);
+    console.log('[OK] VAD model installed');
   } catch (error) {
-    console.error('Failed to download STT model:', error);
-    // Cleanup on error
-    if (fs.existsSync(archivePath)) {
-      fs.unlinkSync(archivePath);
-    }
+    console.error('Failed to download VAD model:', error);
     throw error;
   }
 }
@@ -244,8 +297,15 @@ export function getModelStatus(): string {
   lines.push('');
   lines.push(`Keyword Spotter: ${status.kws ? 'installed' : 'not installed'}`);
   lines.push(`STT Model (${config.stt.model}): ${status.stt ? 'installed' : 'not installed'}`);
+  if (config.stt.streaming) {
+    lines.push(`Streaming Model (${config.stt.streamingModel}): ${status.streaming ? 'installed' : 'not installed'}`);
+  }
+  if (config.recording.endpointer === 'vad') {
+    const vadInstalled = fs.existsSync(getVadModelPath());
+    lines.push(`VAD Model: ${vadInstalled ? 'installed' : 'not installed (using amplitude endpointing)'}`);
+  }
 
-  if (!status.kws || !status.stt) {
+  if (!status.kws || !status.stt || !status.streaming) {
     lines.push('');
     lines.push('Run "claude-voice-light model download" to install missing models.');
   }
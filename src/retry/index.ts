@@ -0,0 +1,153 @@
+/**
+ * Re-transcription - runs a command through a larger model ("redo",
+ * `claude-voice-light retry`) and sends the corrected text
+ */
+
+import { Config } from '../config';
+import { STTManager, WhisperTask, stripTaskModifier } from '../stt';
+import { getKeywordAction } from '../actions';
+import { sendText } from '../voice-commands';
+import { applyVocabulary, loadVocabulary } from '../vocabulary';
+import { formatTranscript, TranscriptTransformer } from '../formatting';
+import { filterTranscript } from '../filter';
+import { appendHistory, getEntryAudioPath, readHistory } from '../history';
+import { TerminalInputInjector } from '../terminal/input-injector';
+import { readAudioFile } from '../utils/wav';
+
+export interface Utterance {
+  // Raw PCM (Int16 mono) or normalized Float32 samples
+  audio: Buffer | Float32Array;
+  sampleRate: number;
+  keyword: string;
+  // Text sent for it, and whether Enter was pressed after it
+  output: string;
+  submitted: boolean;
+  // Task the command was decoded with (stt.task or a spoken modifier)
+  task?: WhisperTask;
+}
+
+export interface RetryResult {
+  model: string;
+  language: string;
+  // Transcript as recognized by the larger model
+  text: string;
+  // Text that was sent
+  output: string;
+}
+
+export interface RetryOptions {
+  // Model to use instead of stt.retry.model
+  model?: string;
+  // Formatting pipeline for the transcript language
+  pipeline?: (language: string) => TranscriptTransformer[];
+  // Only print the result
+  dryRun?: boolean;
+}
+
+/**
+ * Load a command from the history (default: the latest one with kept audio)
+ */
+export function loadHistoryUtterance(id?: number): Utterance {
+  const entries = readHistory();
+  const entry =
+    id !== undefined
+      ? entries.find((e) => e.id === id)
+      : [...entries].reverse().find((e) => getEntryAudioPath(e) !== null);
+
+  if (!entry) {
+    throw new Error(
+      id !== undefined
+        ? `No history entry #${id}`
+        : 'No command audio to retry (enable recording.keepAudio to retry past commands)'
+    );
+  }
+
+  const file = getEntryAudioPath(entry);
+  if (!file) {
+    throw new Error(`No audio kept for #${entry.id} (enable recording.keepAudio)`);
+  }
+
+  const { samples, sampleRate } = readAudioFile(file, 16000);
+  // Sent in an earlier session - never erased
+  return {
+    audio: samples,
+    sampleRate,
+    keyword: entry.keyword,
+    output: entry.output,
+    submitted: true,
+    task: entry.task,
+  };
+}
+
+/**
+ * Re-transcribe a command with a larger model and send the corrected text
+ *
+ * Text that was typed but not submitted is erased first (stt.retry.replace).
+ * The corrected text is never submitted, so it can be reviewed.
+ */
+export async function retryUtterance(
+  utterance: Utterance,
+  stt: STTManager,
+  config: Config,
+  options: RetryOptions = {}
+): Promise<RetryResult> {
+  const startedAt = Date.now();
+  const retried = await stt.retranscribeAudio(utterance.audio, utterance.sampleRate, options.model, utterance.task);
+  const { model, language, task } = retried;
+  // A modifier spoken with the command is transcribed again
+  const text = stripTaskModifier(retried.text, config.stt.taskModifiers);
+  const latency = (Date.now() - startedAt) / 1000;
+
+  const filtered = filterTranscript(text, config.filter, {
+    silenceAmplitude: config.recording.silenceAmplitude,
+    hallucinations: config.stt.hallucinations,
+  });
+  for (const item of filtered.dropped) {
+    console.log(`- dropped ${item}`);
+  }
+
+  if (!filtered.text.trim()) {
+    throw new Error(`No speech detected by ${model} either`);
+  }
+  console.log(`> [${model}] ${filtered.text}`);
+
+  let output = filtered.text;
+  if (config.vocabulary.enabled) {
+    output = applyVocabulary(output, loadVocabulary(), config.vocabulary);
+  }
+  output = formatTranscript(output, options.pipeline ? options.pipeline(task === 'translate' ? 'en' : language) : []);
+  if (output !== text) {
+    console.log(`= ${output}`);
+  }
+
+  if (options.dryRun) {
+    return { model, language, text, output };
+  }
+
+  const action = getKeywordAction(config.wakeWord, utterance.keyword);
+  if (config.stt.retry.replace && !utterance.submitted && utterance.output && action.type === 'claude') {
+    await new TerminalInputInjector({ terminal: 'auto' }).erase([...utterance.output].length);
+  }
+  await sendText(action, output, utterance.keyword, config.commands, false);
+
+  if (config.history.enabled) {
+    const samples = Buffer.isBuffer(utterance.audio) ? utterance.audio.length / 2 : utterance.audio.length;
+    try {
+      appendHistory({
+        keyword: utterance.keyword,
+        model,
+        language,
+        task,
+        duration: samples / utterance.sampleRate,
+        latency,
+        text,
+        output,
+        command: 'redo',
+      });
+    } catch (error) {
+      console.error('Failed to write history:', (error as Error).message);
+    }
+  }
+
+  return { model, language, text, output };
+}
@@ -0,0 +1,46 @@
+/**
+ * Why an STT engine could not start
+ */
+
+// model-missing: unknown or not downloaded, file-missing: incomplete download,
+// native-binding: sherpa-onnx native library failed to load, model-load: the model files
+// could not be loaded, unsupported-language: stt.language is not in the model,
+// config: invalid provider settings, server-unreachable: the provider's server did not answer
+export type STTInitErrorCode =
+  | 'model-missing'
+  | 'file-missing'
+  | 'native-binding'
+  | 'model-load'
+  | 'unsupported-language'
+  | 'config'
+  | 'server-unreachable';
+
+export class STTInitError extends Error {
+  code: STTInitErrorCode;
+  // What to run or change to fix it
+  hint?: string;
+
+  constructor(code: STTInitErrorCode, message: string, hint?: string) {
+    super(message);
+    this.name = 'STTInitError';
+    this.code = code;
+    this.hint = hint;
+  }
+}
+
+export interface STTErrorInfo {
+  // STTInitErrorCode, or 'error' for anything else a provider threw
+  code: string;
+  message: string;
+  hint?: string;
+}
+
+/**
+ * Plain description of an error for reports and the control API
+ */
+export function describeError(error: unknown): STTErrorInfo {
+  if (error instanceof STTInitError) {
+    return { code: error.code, message: error.message, hint: error.hint };
+  }
+  return { code: 'error', message: error instanceof Error ? error.message : String(error) };
+}
@@ -0,0 +1,215 @@
+/**
+ * Fallback chain - tries the engines in stt.fallback when one fails to initialize,
+ * times out or throws, and skips an engine that keeps failing (circuit breaker)
+ */
+
+import { CircuitBreakerConfig } from '../config';
+import { RecognitionResult, RecognizeOptions, STTProvider } from './provider';
+import { STTErrorInfo, describeError } from './errors';
+
+interface Engine {
+  // stt.provider, or the entry in stt.fallback
+  label: string;
+  provider: STTProvider;
+  initializing: Promise<void> | null;
+  // Consecutive failures
+  failures: number;
+  // Skipped until this time (ms), 0 when in use
+  openUntil: number;
+  // Last failure
+  error: STTErrorInfo | null;
+}
+
+export interface EngineStatus {
+  label: string;
+  provider: string;
+  model: string;
+  // idle: not needed yet (a fallback), skipped: circuit breaker open
+  state: 'ready' | 'failed' | 'skipped' | 'idle';
+  failures: number;
+  error?: STTErrorInfo;
+}
+
+export interface FallbackOptions {
+  // Seconds per command before the next engine is tried (0: no limit)
+  timeout: number;
+  circuitBreaker: CircuitBreakerConfig;
+}
+
+export interface ChainResult {
+  result: RecognitionResult;
+  provider: STTProvider;
+  label: string;
+  // Set when an engine other than the first one handled the command
+  fallback?: { from: string; reason: string };
+}
+
+export class FallbackChain {
+  private engines: Engine[];
+  private options: FallbackOptions;
+
+  /**
+   * @param engines - stt.provider first, then the fallbacks in order
+   */
+  constructor(engines: { label: string; provider: STTProvider }[], options: FallbackOptions) {
+    this.engines = engines.map((e) => ({ ...e, initializing: null, failures: 0, openUntil: 0, error: null }));
+    this.options = options;
+  }
+
+  get primary(): STTProvider {
+    return this.engines[0].provider;
+  }
+
+  /**
+   * Provider expected to handle the next command
+   */
+  get active(): STTProvider {
+    const now = Date.now();
+    const engine = this.engines.find((e) => e.openUntil <= now && e.provider.isReady());
+    return (engine || this.engines[0]).provider;
+  }
+
+  get size(): number {
+    return this.engines.length;
+  }
+
+  /**
+   * Initialize the first engine, then the fallbacks until one is ready
+   * (the others are initialized when they are first needed)
+   * @returns Whether an engine is ready - failures are in getStatus()
+   */
+  async initialize(): Promise<boolean> {
+    for (const engine of this.engines) {
+      try {
+        await this.prepare(engine);
+        return true;
+      } catch (error) {
+        this.recordFailure(engine, error);
+      }
+    }
+    return false;
+  }
+
+  getStatus(): EngineStatus[] {
+    const now = Date.now();
+    return this.engines.map((engine) => {
+      const ready = engine.provider.isReady();
+      let state: EngineStatus['state'] = ready ? 'ready' : engine.error ? 'failed' : 'idle';
+      if (engine.openUntil > now) {
+        state = 'skipped';
+      }
+      return {
+        label: engine.label,
+        provider: engine.provider.name,
+        model: engine.provider.model,
+        state,
+        failures: engine.failures,
+        error: engine.error || undefined,
+      };
+    });
+  }
+
+  /**
+   * Transcribe with the first engine that succeeds
+   */
+  async transcribe(samples: Float32Array, sampleRate: number, options: RecognizeOptions = {}): Promise<ChainResult> {
+    const now = Date.now();
+    const available = this.engines.filter((e) => e.openUntil <= now);
+    // Every engine is being skipped - the first one gets a try anyway
+    const candidates = available.length > 0 ? available : [this.engines[0]];
+    const errors: string[] = [];
+
+    for (const engine of candidates) {
+      try {
+        await this.prepare(engine);
+        const result = await this.withTimeout(engine.provider.transcribe(samples, sampleRate, options));
+        engine.failures = 0;
+        engine.openUntil = 0;
+        engine.error = null;
+
+        const primary = this.engines[0];
+        const fallback =
+          engine === primary ? undefined : { from: primary.label, reason: errors.join('; ') || 'skipped' };
+        return { result, provider: engine.provider, label: engine.label, fallback };
+      } catch (error) {
+        const message = (error as Error).message;
+        errors.push(`${engine.label}: ${message}`);
+        if (candidates.length === 1) {
+          this.recordFailure(engine, error);
+          throw error;
+        }
+        console.warn(`STT: ${engine.label} failed (${message})`);
+        this.recordFailure(engine, error);
+      }
+    }
+
+    throw new Error(`All STT engines failed (${errors.join('; ')})`);
+  }
+
+  isReady(): boolean {
+    return this.engines.some((e) => e.provider.isReady());
+  }
+
+  dispose(): void {
+    for (const engine of this.engines) {
+      engine.provider.dispose();
+    }
+  }
+
+  private async prepare(engine: Engine): Promise<void> {
+    if (engine.provider.isReady()) {
+      return;
+    }
+    if (!engine.initializing) {
+      engine.initializing = engine.provider.initialize().finally(() => {
+        engine.initializing = null;
+      });
+    }
+    await engine.initializing;
+    if (!engine.provider.isReady()) {
+      throw new Error(`${engine.label} did not initialize`);
+    }
+  }
+
+  /**
+   * Count a failure and skip the engine for a while once it keeps failing
+   * (only when there is another engine to use)
+   */
+  private recordFailure(engine: Engine, error: unknown): void {
+    engine.failures++;
+    engine.error = describeError(error);
+    const { failures, cooldown } = this.options.circuitBreaker;
+    if (this.engines.length > 1 && failures > 0 && engine.failures >= failures) {
+      engine.openUntil = Date.now() + cooldown * 1000;
+      console.warn(`STT: skipping ${engine.label} for ${cooldown}s after ${engine.failures} failures`);
+    }
+  }
+
+  /**
+   * Reject when the engine takes too long (the engine may keep working on it in the background)
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    if (this.options.timeout <= 0) {
+      return promise;
+    }
+
+    const seconds = this.options.timeout;
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${seconds}s`)), seconds * 1000);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+  }
+}
+
+/**
+ * Report lines for an engine ("whisper-tiny (sherpa-onnx): failed - Model not installed: ...")
+ */
+export function formatEngineStatus(engine: EngineStatus): string[] {
+  const name = engine.label === engine.provider ? engine.label : `${engine.label} (${engine.provider})`;
+  const lines = [`${name}: ${engine.state}${engine.error ? ` - ${engine.error.message}` : ''}`];
+  if (engine.error?.hint) {
+    lines.push(`  ${engine.error.hint}`);
+  }
+  return lines;
+}
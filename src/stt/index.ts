@@ -1,28 +1,417 @@
-import { SherpaOnnxProvider, SherpaOnnxConfig } from './providers/sherpa-onnx';
-import { STTConfig } from '../config';
+import { SHERPA_MODELS, listModels } from './providers/sherpa-onnx';
+import { SherpaOnnxStreamingProvider, StreamingSession } from './providers/sherpa-onnx-streaming';
+import { STTProvider, STTProviderOptions, WhisperTask } from './provider';
+import { createProvider } from './registry';
+import { EngineStatus, FallbackChain } from './fallback';
+import { STTErrorInfo, describeError } from './errors';
+import { STTConfig, RecordingConfig } from '../config';
+import { bufferToFloat32 } from '../utils/silence';
+import { readAudioFile } from '../utils/wav';
+import { assessTranscript } from './quality';
+import { matchTaskModifier, stripTaskModifier } from './task';
+
+// The models expect 16 kHz audio
+const MODEL_SAMPLE_RATE = 16000;
+
+// Whisper models from fastest to most accurate, the 'auto' retry ladder
+const MODEL_SIZES = ['whisper-tiny', 'whisper-base', 'whisper-small'];
+
+/**
+ * Pick the offline model used to re-transcribe a command
+ * @param current - Model of the first pass ('' when another provider made it)
+ * @param preferred - A model id, or 'auto' for the largest installed Whisper model above current
+ *   (any installed Whisper model when current is another family)
+ */
+export function resolveRetryModel(current: string, preferred: string = 'auto'): string {
+  const installed = listModels()
+    .filter((m) => m.installed)
+    .map((m) => m.id);
+
+  if (preferred !== 'auto') {
+    if (!SHERPA_MODELS[preferred]) {
+      throw new Error(`Unknown model: ${preferred}. Available: ${Object.keys(SHERPA_MODELS).join(', ')}`);
+    }
+    if (!installed.includes(preferred)) {
+      throw new Error(`Retry model not installed: ${preferred}. Run: claude-voice-light model download`);
+    }
+    return preferred;
+  }
+
+  const larger = MODEL_SIZES.slice(MODEL_SIZES.indexOf(current) + 1).filter((m) => installed.includes(m));
+  if (larger.length === 0) {
+    throw new Error(
+      `No Whisper model ${current ? `larger than ${current} ` : ''}is installed. ` +
+        'Set stt.retry.model (e.g. whisper-base) and run: claude-voice-light model download'
+    );
+  }
+  return larger[larger.length - 1];
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Model that produced the text
+  model: string;
+  // Language that was spoken
+  language: string;
+  task: WhisperTask;
+  // Task modifier phrase removed from the text
+  modifier?: string;
+  // Set when the first pass looked unreliable and a larger model ran
+  escalation?: { from: string; reasons: string[] };
+  // Set when stt.provider failed and an engine from stt.fallback ran
+  fallback?: { from: string; to: string; reason: string };
+}
 
 /**
  * STT Manager - handles speech-to-text transcription
  */
 export class STTManager {
-  private provider: SherpaOnnxProvider;
+  private config: STTConfig;
+  // stt.provider followed by stt.fallback
+  private chain: FallbackChain;
+  private initialized: Promise<boolean> | null = null;
+  private streamingProvider: SherpaOnnxStreamingProvider | null = null;
+  // Why the streaming model did not load
+  private streamingError: STTErrorInfo | null = null;
+  // Trailing silence the endpointer waits for (seconds)
+  private endpointSilence: number;
+  // Larger offline model for escalation and re-transcription, created on first use unless warmed
+  private retryProvider: { model: string; provider: STTProvider; initialized: Promise<void> } | null = null;
+  // Vocabulary terms passed to every provider
+  private biasing: Pick<STTProviderOptions, 'hotwords' | 'hotwordsScore'>;
 
-  constructor(config: STTConfig) {
-    const sherpaConfig: SherpaOnnxConfig = {
-      model: config.model,
-      language: config.language,
-    };
-    this.provider = new SherpaOnnxProvider(sherpaConfig);
+  /**
+   * @param biasing - Vocabulary terms for models that support contextual biasing
+   */
+  constructor(
+    config: STTConfig,
+    recordingConfig?: RecordingConfig,
+    biasing?: { hotwords: string[]; hotwordsScore: number }
+  ) {
+    this.config = config;
+    this.biasing = { hotwords: biasing?.hotwords, hotwordsScore: biasing?.hotwordsScore };
+    const primary = config.provider || 'sherpa-onnx';
+    this.chain = new FallbackChain(
+      [
+        {
+          label: primary === 'sherpa-onnx' ? config.model : primary,
+          provider: createProvider(primary, config, this.biasing),
+        },
+        ...(config.fallback || []).map((entry) => ({ label: entry, provider: this.createFallback(entry) })),
+      ],
+      { timeout: config.timeout ?? 0, circuitBreaker: config.circuitBreaker || { failures: 0, cooldown: 0 } }
+    );
+    this.endpointSilence = (recordingConfig?.silenceThreshold || 2500) / 1000;
+
+    if (config.streaming) {
+      this.streamingProvider = new SherpaOnnxStreamingProvider({
+        model: config.streamingModel,
+        sampleRate: recordingConfig?.sampleRate || 16000,
+        endpointSilence: (recordingConfig?.silenceThreshold || 2500) / 1000,
+        hotwords: biasing?.hotwords,
+        hotwordsScore: biasing?.hotwordsScore,
+      });
+    }
   }
 
+  /**
+   * Provider for a stt.fallback entry: an offline model id or a provider name
+   */
+  private createFallback(entry: string): STTProvider {
+    return SHERPA_MODELS[entry]
+      ? createProvider('sherpa-onnx', this.config, { ...this.biasing, model: entry })
+      : createProvider(entry, this.config, this.biasing);
+  }
+
+  /**
+   * Load stt.provider (or the first fallback that works) and the streaming model before the first command
+   * @returns Whether an engine is ready - see getStatus() for what failed (a streaming model
+   *   that failed to load is reported there and by getStreamingStatus())
+   */
+  initialize(): Promise<boolean> {
+    if (!this.initialized) {
+      this.initialized = Promise.all([this.chain.initialize(), this.initializeStreaming()]).then(([ready]) => ready);
+
+      // Escalation runs before every unreliable command, so its model is always loaded
+      if (this.config.escalation?.enabled || this.config.retry?.warm) {
+        this.initialized.then(() => this.warmRetryProvider());
+      }
+    }
+    return this.initialized;
+  }
+
+  private async initializeStreaming(): Promise<void> {
+    if (!this.streamingProvider) {
+      return;
+    }
+    try {
+      await this.streamingProvider.initialize();
+      this.streamingError = null;
+    } catch (error) {
+      this.streamingError = describeError(error);
+    }
+  }
+
+  private async warmRetryProvider(): Promise<void> {
+    try {
+      await this.getRetryProvider(this.config.escalation?.enabled ? this.config.escalation.model : undefined)
+        .initialized;
+    } catch (error) {
+      this.retryProvider = null;
+      console.warn(`Larger model not loaded: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Transcribe an audio file (decoded, downmixed and resampled to the model rate)
+   */
   async transcribe(audioPath: string): Promise<string> {
-    return this.provider.transcribe(audioPath);
+    const { samples, sampleRate } = readAudioFile(audioPath, MODEL_SAMPLE_RATE);
+    return this.transcribeAudio(samples, sampleRate);
+  }
+
+  /**
+   * Transcribe audio held in memory
+   * @param audio - Raw PCM (Int16 little-endian mono) or normalized Float32 samples
+   * @param sampleRate - Sample rate of the audio
+   */
+  async transcribeAudio(audio: Buffer | Float32Array, sampleRate: number): Promise<string> {
+    return (await this.recognize(audio, sampleRate)).text;
+  }
+
+  /**
+   * Transcribe audio held in memory, escalating to a larger model when enabled
+   */
+  async recognize(audio: Buffer | Float32Array, sampleRate: number): Promise<TranscriptionResult> {
+    const samples = Buffer.isBuffer(audio) ? bufferToFloat32(audio) : audio;
+    await this.initialize();
+    const first = await this.chain.transcribe(samples, sampleRate);
+
+    // Show which engine handled the command (escalation reports it on its own)
+    if (first.fallback) {
+      console.log(`STT: ${first.label} (fallback for ${first.fallback.from})`);
+    } else if (this.chain.size > 1 && !this.config.escalation?.enabled) {
+      console.log(`STT: ${first.label}`);
+    }
+
+    const result = await this.applyTaskModifier(samples, sampleRate, {
+      ...first.result,
+      model: first.provider.model,
+      fallback: first.fallback && { ...first.fallback, to: first.label },
+    });
+    return this.escalate(samples, sampleRate, result);
   }
 
+  /**
+   * Honor a task modifier at the start of a transcript ("in English, ..."): strip it and,
+   * when it asks for the other task, decode the audio again with that task
+   */
+  async applyTaskModifier(
+    audio: Buffer | Float32Array,
+    sampleRate: number,
+    first: TranscriptionResult
+  ): Promise<TranscriptionResult> {
+    const modifiers = this.config.taskModifiers || {};
+    const match = matchTaskModifier(first.text, modifiers, first.language);
+    if (!match) {
+      return first;
+    }
+
+    if (match.task === first.task) {
+      return { ...first, text: match.rest, modifier: match.phrase };
+    }
+    const provider = this.chain.active;
+    if (match.task === 'translate' && !provider.capabilities.translate) {
+      console.log(`STT: ${provider.model} cannot translate (${match.phrase})`);
+      return { ...first, text: match.rest, modifier: match.phrase };
+    }
+
+    console.log(`STT: ${match.task} (${match.phrase})`);
+    const samples = Buffer.isBuffer(audio) ? bufferToFloat32(audio) : audio;
+    await this.initialize();
+    const second = await this.chain.transcribe(samples, sampleRate, {
+      task: match.task,
+      language: first.language,
+    });
+    return {
+      ...first,
+      ...second.result,
+      text: stripTaskModifier(second.result.text, modifiers),
+      model: second.provider.model,
+      modifier: match.phrase,
+    };
+  }
+
+  /**
+   * Re-run a first-pass transcript through the larger model if it looks unreliable
+   * (empty, looping, too short for the audio, or a known hallucination)
+   */
+  async escalate(
+    audio: Buffer | Float32Array,
+    sampleRate: number,
+    first: TranscriptionResult
+  ): Promise<TranscriptionResult> {
+    const escalation = this.config.escalation;
+    if (!escalation?.enabled) {
+      return first;
+    }
+
+    const samples = Buffer.isBuffer(audio) ? audio.length / 2 : audio.length;
+    const speech = Math.max(samples / sampleRate - this.endpointSilence, 0.5);
+    const assessment = assessTranscript(first.text, speech, {
+      ...escalation,
+      hallucinations: this.config.hallucinations || [],
+    });
+
+    if (assessment.reliable) {
+      console.log(`STT: ${first.model}`);
+      return first;
+    }
+
+    try {
+      const second = await this.retranscribeAudio(audio, sampleRate, escalation.model, first.task);
+      console.log(`STT: ${first.model} -> ${second.model} (${assessment.reasons.join(', ')})`);
+
+      // An empty second pass is no better than a non-empty first one
+      if (!second.text.trim() && first.text.trim()) {
+        return first;
+      }
+      const text = first.modifier ? stripTaskModifier(second.text, this.config.taskModifiers || {}) : second.text;
+      return {
+        ...second,
+        text,
+        modifier: first.modifier,
+        escalation: { from: first.model, reasons: assessment.reasons },
+      };
+    } catch (error) {
+      console.warn(`STT: ${first.model} (escalation failed: ${(error as Error).message})`);
+      return first;
+    }
+  }
+
+  /**
+   * Transcribe audio again with a larger model
+   * @param model - Model to use instead of stt.retry.model
+   * @param task - Task to use instead of stt.task
+   */
+  async retranscribeAudio(
+    audio: Buffer | Float32Array,
+    sampleRate: number,
+    model?: string,
+    task?: WhisperTask
+  ): Promise<TranscriptionResult> {
+    const retry = this.getRetryProvider(model);
+    const samples = Buffer.isBuffer(audio) ? bufferToFloat32(audio) : audio;
+    try {
+      await retry.initialized;
+    } catch (error) {
+      // Tried again next time (e.g. after the model is downloaded)
+      if (this.retryProvider === retry) {
+        this.retryProvider = null;
+      }
+      throw error;
+    }
+    return { ...(await retry.provider.transcribe(samples, sampleRate, { task })), model: retry.model };
+  }
+
+  private getRetryProvider(model?: string): { model: string; provider: STTProvider; initialized: Promise<void> } {
+    const primary = this.chain.primary;
+    const offline = primary.name === 'sherpa-onnx';
+    const target = resolveRetryModel(offline ? this.config.model : '', model || this.config.retry?.model);
+
+    if (this.retryProvider?.model !== target) {
+      // Keep a single extra model in memory
+      if (this.retryProvider && this.retryProvider.provider !== primary) {
+        this.retryProvider.provider.dispose();
+      }
+
+      const provider =
+        offline && target === this.config.model
+          ? primary
+          : createProvider('sherpa-onnx', this.config, { ...this.biasing, model: target });
+      this.retryProvider = { model: target, provider, initialized: provider.initialize() };
+      // Awaited where it is used
+      this.retryProvider.initialized.catch(() => undefined);
+    }
+    return this.retryProvider;
+  }
+
+  /**
+   * Start a streaming transcription for a command being recorded
+   * @returns null when streaming is disabled or its model is not ready
+   */
+  createStreamingSession(): StreamingSession | null {
+    if (!this.streamingProvider?.isReady()) {
+      return null;
+    }
+    return this.streamingProvider.createSession();
+  }
+
+  /**
+   * Whether stt.provider or one of the fallbacks can transcribe
+   */
   isReady(): boolean {
-    return this.provider.isReady();
+    return this.chain.isReady();
+  }
+
+  /**
+   * State of stt.provider, each fallback and the streaming model
+   */
+  getStatus(): EngineStatus[] {
+    const streaming = this.getStreamingStatus();
+    return streaming ? [...this.chain.getStatus(), streaming] : this.chain.getStatus();
+  }
+
+  /**
+   * State of the streaming model (null when stt.streaming is off)
+   */
+  getStreamingStatus(): EngineStatus | null {
+    if (!this.streamingProvider) {
+      return null;
+    }
+    const ready = this.streamingProvider.isReady();
+    return {
+      label: this.streamingProvider.model,
+      provider: this.streamingProvider.name,
+      model: this.streamingProvider.model,
+      state: ready ? 'ready' : this.streamingError ? 'failed' : 'idle',
+      failures: this.streamingError ? 1 : 0,
+      error: this.streamingError || undefined,
+    };
+  }
+
+  /**
+   * Provider expected to transcribe the next command (stt.provider unless it is failing)
+   */
+  getProvider(): STTProvider {
+    return this.chain.active;
+  }
+
+  dispose(): void {
+    if (this.retryProvider && this.retryProvider.provider !== this.chain.primary) {
+      this.retryProvider.provider.dispose();
+    }
+    this.retryProvider = null;
+    this.chain.dispose();
   }
 }
 
 // Re-export for convenience
 export { SherpaOnnxProvider, downloadModel, listModels, SHERPA_MODELS } from './providers/sherpa-onnx';
+export { WhisperCppProvider } from './providers/whisper-cpp';
+export { OpenAIProvider } from './providers/openai';
+export {
+  STTProvider,
+  STTProviderFactory,
+  STTProviderOptions,
+  STTCapabilities,
+  RecognitionResult,
+  RecognizeOptions,
+  WhisperTask,
+} from './provider';
+export { createProvider, listProviders, registerProvider } from './registry';
+export { FallbackChain, FallbackOptions, EngineStatus, formatEngineStatus } from './fallback';
+export { STTInitError, STTInitErrorCode, STTErrorInfo, describeError } from './errors';
+export { SherpaOnnxStreamingProvider, StreamingSession, STREAMING_MODELS } from './providers/sherpa-onnx-streaming';
+export { assessTranscript, hasRepetitionLoop, matchHallucination, QualityAssessment } from './quality';
+export { matchTaskModifier, stripTaskModifier, TaskModifier } from './task';
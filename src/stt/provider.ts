@@ -0,0 +1,71 @@
+/**
+ * STT provider interface - an engine that turns command audio into text
+ * (sherpa-onnx models, a whisper.cpp server, an OpenAI-compatible API, ...)
+ */
+
+import { STTProviderSettings } from '../config';
+
+export type WhisperTask = 'transcribe' | 'translate';
+
+export interface RecognizeOptions {
+  // Task for this utterance instead of the configured one
+  task?: WhisperTask;
+  // Skip language identification
+  language?: string;
+}
+
+export interface RecognitionResult {
+  text: string;
+  // Language that was spoken
+  language: string;
+  task: WhisperTask;
+}
+
+export interface STTCapabilities {
+  // Languages the engine transcribes (empty: not known)
+  languages: string[];
+  // Translates speech to English (stt.task translate)
+  translate: boolean;
+  // Identifies the spoken language itself (stt.language auto)
+  languageDetection: boolean;
+  // Audio stays on this machine
+  local: boolean;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  // Model name shown in logs and history
+  readonly model: string;
+  readonly capabilities: STTCapabilities;
+  // Load models or check the server; transcribe() fails until this has succeeded
+  initialize(): Promise<void>;
+  /**
+   * Transcribe in-memory audio
+   * @param samples - Mono samples normalized to [-1, 1]
+   * @param sampleRate - Sample rate of the samples
+   */
+  transcribe(samples: Float32Array, sampleRate: number, options?: RecognizeOptions): Promise<RecognitionResult>;
+  isReady(): boolean;
+  // Release models and connections
+  dispose(): void;
+}
+
+export interface STTProviderOptions {
+  // Offline model id (stt.model)
+  model: string;
+  // Language code, or 'auto'
+  language: string;
+  // Languages 'auto' may choose from (empty: any)
+  languages: string[];
+  task: WhisperTask;
+  // stt.providers.<name>
+  settings: STTProviderSettings;
+  // Vocabulary terms to bias recognition towards (engines that support hotwords)
+  hotwords?: string[];
+  hotwordsScore?: number;
+}
+
+/**
+ * Creates a provider - what a third-party provider module exports as `createProvider`
+ */
+export type STTProviderFactory = (options: STTProviderOptions) => STTProvider;
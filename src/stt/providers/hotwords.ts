@@ -0,0 +1,47 @@
+/**
+ * Hotwords files for transducer models (contextual biasing towards vocabulary terms)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir } from '../../config';
+import { loadKeywordVocabulary, buildKeywordVariants } from '../../wake-word/keyword-builder';
+
+/**
+ * Tokenize the hotwords with a model's vocabulary and write them to a file
+ * @param name - Model id, used for the file name
+ * @returns The file path, or null if there are no usable hotwords
+ */
+export function writeHotwordsFile(hotwords: string[], modelPath: string, name: string): string | null {
+  if (hotwords.length === 0) {
+    return null;
+  }
+
+  let vocab: ReturnType<typeof loadKeywordVocabulary>;
+  try {
+    vocab = loadKeywordVocabulary(modelPath);
+  } catch (error) {
+    console.warn(`Hotwords disabled: ${(error as Error).message}`);
+    return null;
+  }
+
+  const lines: string[] = [];
+
+  for (const term of hotwords) {
+    try {
+      lines.push(buildKeywordVariants(term, vocab, 1)[0]);
+    } catch (error) {
+      console.warn(`Skipping hotword "${term}": ${(error as Error).message}`);
+    }
+  }
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const file = path.join(getConfigDir(), `hotwords-${name}.txt`);
+  fs.mkdirSync(getConfigDir(), { recursive: true });
+  fs.writeFileSync(file, lines.join('\n') + '\n');
+  console.log(`STT hotwords (${name}): ${lines.length}`);
+  return file;
+}
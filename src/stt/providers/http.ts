@@ -0,0 +1,125 @@
+/**
+ * Audio uploads for server-based providers (multipart/form-data, JSON reply)
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+
+// How long initialize() waits for a server to answer (ms)
+export const PROBE_TIMEOUT = 5000;
+
+export interface UploadOptions {
+  headers?: Record<string, string>;
+  // Request timeout (ms)
+  timeout: number;
+}
+
+/**
+ * Read a secret from config ("env:NAME" reads the environment variable)
+ */
+export function resolveSecret(value: string | undefined): string | undefined {
+  if (value?.startsWith('env:')) {
+    return process.env[value.slice(4)] || undefined;
+  }
+  return value || undefined;
+}
+
+/**
+ * Join a base URL and a route ("http://host/v1" + "audio/transcriptions")
+ */
+export function joinUrl(base: string, route: string): URL {
+  return new URL(route.replace(/^\//, ''), base.endsWith('/') ? base : `${base}/`);
+}
+
+/**
+ * GET a URL to check that the server answers
+ * @returns The HTTP status (rejects when the server cannot be reached in time)
+ */
+export function probeUrl(url: URL, options: UploadOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method: 'GET', headers: options.headers, timeout: options.timeout },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      }
+    );
+
+    req.on('timeout', () => req.destroy(new Error(`${url.host} did not respond within ${options.timeout} ms`)));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * POST form fields and a WAV file, and parse the JSON reply
+ * @param fields - Form fields (undefined values are left out)
+ */
+export function postAudio(
+  url: URL,
+  fields: Record<string, string | undefined>,
+  wav: Buffer,
+  options: UploadOptions
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<Record<string, any>> {
+  const boundary = `----claude-voice-light-${crypto.randomBytes(12).toString('hex')}`;
+  const parts: Buffer[] = [];
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+  }
+  parts.push(
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="audio.wav"\r\n` +
+        'Content-Type: audio/wav\r\n\r\n'
+    ),
+    wav,
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  );
+  const body = Buffer.concat(parts);
+
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          ...options.headers,
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+          'Content-Length': body.length,
+        },
+        timeout: options.timeout,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf-8');
+          let reply;
+          try {
+            reply = JSON.parse(text || '{}');
+          } catch {
+            reply = null;
+          }
+
+          const status = res.statusCode || 0;
+          if (status < 200 || status >= 300) {
+            const message = reply?.error?.message || reply?.error || text.trim().slice(0, 200);
+            reject(new Error(`${url.host} returned HTTP ${status}${message ? `: ${message}` : ''}`));
+          } else if (!reply || typeof reply !== 'object') {
+            reject(new Error(`Invalid response from ${url.host}`));
+          } else {
+            resolve(reply);
+          }
+        });
+      }
+    );
+
+    req.on('timeout', () => req.destroy(new Error(`${url.host} did not respond within ${options.timeout} ms`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * OpenAI-compatible provider - POST /v1/audio/transcriptions (or /translations)
+ * on the OpenAI API or a local server implementing it
+ */
+
+import { STTProviderSettings } from '../../config';
+import { encodeWav } from '../../utils/audio';
+import { float32ToBuffer } from '../../utils/silence';
+import {
+  RecognitionResult,
+  RecognizeOptions,
+  STTCapabilities,
+  STTProvider,
+  STTProviderOptions,
+} from '../provider';
+import { STTInitError } from '../errors';
+import { PROBE_TIMEOUT, joinUrl, postAudio, probeUrl, resolveSecret } from './http';
+
+const DEFAULT_TIMEOUT = 30000;
+
+// verbose_json names the detected language in English ("english")
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  turkish: 'tr',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  italian: 'it',
+  portuguese: 'pt',
+  dutch: 'nl',
+  polish: 'pl',
+  russian: 'ru',
+  chinese: 'zh',
+  japanese: 'ja',
+  korean: 'ko',
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export class OpenAIProvider implements STTProvider {
+  readonly name = 'openai';
+  private options: STTProviderOptions;
+  private settings: STTProviderSettings;
+  private ready = false;
+
+  constructor(options: STTProviderOptions) {
+    this.options = options;
+    this.settings = options.settings;
+  }
+
+  get model(): string {
+    return this.settings.model || 'whisper-1';
+  }
+
+  get capabilities(): STTCapabilities {
+    let local = false;
+    try {
+      local = LOCAL_HOSTS.includes(new URL(this.settings.url || '').hostname);
+    } catch {
+      // Reported by initialize()
+    }
+    return { languages: [], translate: true, languageDetection: true, local };
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.settings.url) {
+      throw new STTInitError('config', 'stt.providers.openai.url is not set');
+    }
+    try {
+      new URL(this.settings.url);
+    } catch {
+      throw new STTInitError('config', `Invalid stt.providers.openai.url: ${this.settings.url}`);
+    }
+    const apiKey = resolveSecret(this.settings.apiKey);
+    if (this.settings.apiKey && !apiKey) {
+      console.warn(`stt.providers.openai.apiKey: ${this.settings.apiKey} is not set`);
+    }
+
+    // Servers without GET /models answer 404, which still shows they are up
+    let status: number;
+    try {
+      status = await probeUrl(joinUrl(this.settings.url, 'models'), {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: PROBE_TIMEOUT,
+      });
+    } catch (error) {
+      throw new STTInitError(
+        'server-unreachable',
+        `${this.settings.url} not reachable: ${(error as Error).message}`,
+        'Check stt.providers.openai.url and your network connection'
+      );
+    }
+    if (status === 401 || status === 403) {
+      throw new STTInitError(
+        'config',
+        `${this.settings.url} rejected the API key (HTTP ${status})`,
+        'Check stt.providers.openai.apiKey'
+      );
+    }
+    this.ready = true;
+    console.log(`STT initialized with ${this.model} at ${this.settings.url}`);
+  }
+
+  async transcribe(
+    samples: Float32Array,
+    sampleRate: number,
+    options: RecognizeOptions = {}
+  ): Promise<RecognitionResult> {
+    if (!this.ready) {
+      throw new Error('OpenAI provider not initialized');
+    }
+
+    const task = options.task || this.options.task;
+    const language = options.language || (this.options.language === 'auto' ? undefined : this.options.language);
+    const apiKey = resolveSecret(this.settings.apiKey);
+
+    // Translations are always English and take no language
+    const reply = await postAudio(
+      joinUrl(this.settings.url!, task === 'translate' ? 'audio/translations' : 'audio/transcriptions'),
+      {
+        model: this.model,
+        // Only verbose_json reports the detected language (not every model supports it)
+        response_format: language ? 'json' : 'verbose_json',
+        temperature: '0',
+        language: task === 'translate' ? undefined : language,
+      },
+      encodeWav(float32ToBuffer(samples), sampleRate, 1),
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: this.settings.timeout || DEFAULT_TIMEOUT,
+      }
+    );
+
+    const detected = String(reply.language || '').toLowerCase();
+    return {
+      text: String(reply.text || '').trim(),
+      language: language || LANGUAGE_NAMES[detected] || detected || this.options.languages[0] || 'en',
+      task,
+    };
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  dispose(): void {
+    this.ready = false;
+  }
+}
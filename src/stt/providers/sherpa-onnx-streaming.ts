@@ -0,0 +1,291 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getModelsDir } from '../../config';
+import { STTInitError } from '../errors';
+import { writeHotwordsFile } from './hotwords';
+
+// Streaming models (decode while the user is speaking)
+export const STREAMING_MODELS = {
+  'zipformer-en-20M': {
+    name: 'Streaming Zipformer English 20M',
+    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-streaming-zipformer-en-20M-2023-02-17.tar.bz2',
+    folder: 'sherpa-onnx-streaming-zipformer-en-20M-2023-02-17',
+    languages: ['en'],
+    type: 'stt',
+    family: 'transducer',
+    files: {
+      encoder: 'encoder-epoch-99-avg-1.int8.onnx',
+      decoder: 'decoder-epoch-99-avg-1.onnx',
+      joiner: 'joiner-epoch-99-avg-1.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'zipformer-bilingual-zh-en': {
+    name: 'Streaming Zipformer Chinese/English',
+    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-streaming-zipformer-bilingual-zh-en-2023-02-20.tar.bz2',
+    folder: 'sherpa-onnx-streaming-zipformer-bilingual-zh-en-2023-02-20',
+    languages: ['zh', 'en'],
+    type: 'stt',
+    family: 'transducer',
+    files: {
+      encoder: 'encoder-epoch-99-avg-1.int8.onnx',
+      decoder: 'decoder-epoch-99-avg-1.onnx',
+      joiner: 'joiner-epoch-99-avg-1.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'paraformer-bilingual-zh-en': {
+    name: 'Streaming Paraformer Chinese/English',
+    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-streaming-paraformer-bilingual-zh-en.tar.bz2',
+    folder: 'sherpa-onnx-streaming-paraformer-bilingual-zh-en',
+    languages: ['zh', 'en'],
+    type: 'stt',
+    family: 'paraformer',
+    files: {
+      encoder: 'encoder.int8.onnx',
+      decoder: 'decoder.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+};
+
+export interface SherpaOnnxStreamingConfig {
+  model: keyof typeof STREAMING_MODELS;
+  // Sample rate of the audio fed to sessions
+  sampleRate: number;
+  // Trailing silence (seconds) after speech that ends an utterance
+  endpointSilence: number;
+  // Terms to bias recognition towards (transducer models only)
+  hotwords?: string[];
+  hotwordsScore?: number;
+}
+
+// Padding fed at the end so the last words get decoded
+const TAIL_PADDING_SECONDS = 0.66;
+
+/**
+ * Streaming speech-to-text with sherpa-onnx OnlineRecognizer
+ */
+export class SherpaOnnxStreamingProvider {
+  name = 'sherpa-onnx-streaming';
+  private config: SherpaOnnxStreamingConfig;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private recognizer: any = null;
+  private ready = false;
+
+  constructor(config: SherpaOnnxStreamingConfig) {
+    this.config = config;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Load the model
+   * @throws STTInitError when the model, one of its files or the native library is missing
+   */
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+
+    const modelInfo = STREAMING_MODELS[this.config.model];
+    if (!modelInfo) {
+      throw new STTInitError(
+        'model-missing',
+        `Unknown streaming model: ${this.config.model}`,
+        `Available: ${Object.keys(STREAMING_MODELS).join(', ')}`
+      );
+    }
+
+    const modelPath = path.join(getModelsDir(), modelInfo.folder);
+    if (!fs.existsSync(modelPath)) {
+      throw new STTInitError(
+        'model-missing',
+        `Streaming model not installed: ${modelPath}`,
+        'Run: claude-voice-light model download'
+      );
+    }
+
+    const files = modelInfo.files as Record<string, string>;
+    const missing = Object.values(files).filter((name) => !fs.existsSync(path.join(modelPath, name)));
+    if (missing.length > 0) {
+      throw new STTInitError(
+        'file-missing',
+        `Streaming model ${this.config.model} is incomplete, missing: ${missing.join(', ')}`,
+        `Delete ${modelPath} and run: claude-voice-light model download`
+      );
+    }
+
+    let OnlineRecognizer;
+    try {
+      ({ OnlineRecognizer } = require('sherpa-onnx-node/streaming-asr'));
+    } catch (error) {
+      throw new STTInitError(
+        'native-binding',
+        `Cannot load the sherpa-onnx native library: ${(error as Error).message.split('\n')[0]}`,
+        `Check that sherpa-onnx-${os.platform()}-${os.arch()} is installed next to sherpa-onnx-node`
+      );
+    }
+
+    try {
+      const file = (name: string) => path.join(modelPath, files[name]);
+
+      const modelConfig =
+        modelInfo.family === 'paraformer'
+          ? { paraformer: { encoder: file('encoder'), decoder: file('decoder') } }
+          : { transducer: { encoder: file('encoder'), decoder: file('decoder'), joiner: file('joiner') } };
+
+      const hotwordsFile =
+        modelInfo.family === 'transducer'
+          ? writeHotwordsFile(this.config.hotwords || [], modelPath, this.config.model)
+          : null;
+
+      this.recognizer = new OnlineRecognizer({
+        featConfig: {
+          sampleRate: 16000,
+          featureDim: 80,
+        },
+        modelConfig: {
+          ...modelConfig,
+          tokens: file('tokens'),
+          numThreads: 2,
+          provider: 'cpu',
+          debug: 0,
+        },
+        // Hotwords need beam search
+        ...(hotwordsFile
+          ? {
+              decodingMethod: 'modified_beam_search',
+              maxActivePaths: 4,
+              hotwordsFile,
+              hotwordsScore: this.config.hotwordsScore || 1.5,
+            }
+          : { decodingMethod: 'greedy_search' }),
+        enableEndpoint: true,
+        rule1MinTrailingSilence: Math.max(2.4, this.config.endpointSilence),
+        rule2MinTrailingSilence: this.config.endpointSilence,
+        rule3MinUtteranceLength: 300,
+      });
+    } catch (error) {
+      this.recognizer = null;
+      throw new STTInitError(
+        'model-load',
+        `Cannot load streaming model ${this.config.model}: ${(error as Error).message}`,
+        `The files may be corrupt. Delete ${modelPath} and run: claude-voice-light model download`
+      );
+    }
+
+    this.ready = true;
+    console.log(`Streaming STT initialized with model: ${this.config.model}`);
+  }
+
+  /**
+   * Start transcribing a new utterance
+   */
+  createSession(): StreamingSession {
+    if (!this.ready || !this.recognizer) {
+      throw new Error('Sherpa-ONNX streaming recognizer not initialized.');
+    }
+    return new StreamingSession(this.recognizer, this.config.sampleRate);
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+}
+
+/**
+ * One utterance being transcribed as it is spoken
+ *
+ * Events:
+ * - 'partial' (text): transcript so far, emitted whenever it changes
+ * - 'final' (text): complete transcript, emitted once at endpoint or finish()
+ */
+export class StreamingSession extends EventEmitter {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private recognizer: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private stream: any;
+  private sampleRate: number;
+  private lastPartial = '';
+  private finalText: string | null = null;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(recognizer: any, sampleRate: number) {
+    super();
+    this.recognizer = recognizer;
+    this.sampleRate = sampleRate;
+    this.stream = recognizer.createStream();
+  }
+
+  /**
+   * Feed audio samples (normalized Float32)
+   */
+  accept(samples: Float32Array): void {
+    if (this.finalText !== null) {
+      return;
+    }
+
+    this.stream.acceptWaveform({ samples, sampleRate: this.sampleRate });
+    this.decode();
+
+    const text = this.currentText();
+    if (text !== this.lastPartial) {
+      this.lastPartial = text;
+      this.emit('partial', text);
+    }
+
+    if (text && this.recognizer.isEndpoint(this.stream)) {
+      this.complete(text);
+    }
+  }
+
+  /**
+   * Flush remaining audio and return the complete transcript
+   */
+  finish(): string {
+    if (this.finalText !== null) {
+      return this.finalText;
+    }
+
+    this.stream.acceptWaveform({
+      samples: new Float32Array(Math.floor(this.sampleRate * TAIL_PADDING_SECONDS)),
+      sampleRate: this.sampleRate,
+    });
+    this.stream.inputFinished();
+    this.decode();
+
+    return this.complete(this.currentText());
+  }
+
+  isFinished(): boolean {
+    return this.finalText !== null;
+  }
+
+  private decode(): void {
+    while (this.recognizer.isReady(this.stream)) {
+      this.recognizer.decode(this.stream);
+    }
+  }
+
+  private currentText(): string {
+    return (this.recognizer.getResult(this.stream).text || '').trim();
+  }
+
+  private complete(text: string): string {
+    this.finalText = text;
+    this.emit('final', text);
+
+    try {
+      this.stream.free?.();
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    return text;
+  }
+}
@@ -2,6 +2,9 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { getModelsDir, getLocalModelsDir } from '../../config';
+import { RecognitionResult, RecognizeOptions, STTCapabilities, STTProvider, WhisperTask } from '../provider';
+import { STTInitError } from '../errors';
+import { writeHotwordsFile } from './hotwords';
 
 // Set up library path for sherpa-onnx native bindings
 function setupLibraryPath(): void {
@@ -43,140 +46,511 @@ function setupLibraryPath(): void {
 // Initialize library path
 setupLibraryPath();
 
+/**
+ * Load a sherpa-onnx-node module (loads the native library on first use)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function loadBinding(module: string): any {
+  try {
+    return require(module);
+  } catch (error) {
+    throw new STTInitError(
+      'native-binding',
+      `Cannot load the sherpa-onnx native library: ${(error as Error).message.split('\n')[0]}`,
+      `Check that sherpa-onnx-${os.platform()}-${os.arch()} is installed next to sherpa-onnx-node`
+    );
+  }
+}
+
+// Offline model families, each decoded by its own OfflineRecognizer model config
+export type ModelFamily = 'whisper' | 'moonshine' | 'sense-voice' | 'paraformer' | 'nemo-transducer' | 'transducer';
+
+export interface SherpaModelInfo {
+  name: string;
+  url: string;
+  folder: string;
+  languages: string[];
+  type: 'stt';
+  family: ModelFamily;
+  // Files in the model folder by role (encoder, decoder, joiner, model, tokens, ...)
+  files: Record<string, string>;
+}
+
+const RELEASES = 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models';
+
+// Multilingual Whisper models, most common first
+const WHISPER_LANGUAGES = [
+  'en', 'zh', 'de', 'es', 'ru', 'ko', 'fr', 'ja', 'pt', 'tr', 'pl', 'ca', 'nl', 'ar', 'sv', 'it', 'id', 'hi',
+  'fi', 'vi', 'he', 'uk', 'el', 'ms', 'cs', 'ro', 'da', 'hu', 'ta', 'no', 'th', 'ur', 'hr', 'bg', 'lt', 'la',
+  'mi', 'ml', 'cy', 'sk', 'te', 'fa', 'lv', 'bn', 'sr', 'az', 'sl', 'kn', 'et', 'mk', 'br', 'eu', 'is', 'hy',
+  'ne', 'mn', 'bs', 'kk', 'sq', 'sw', 'gl', 'mr', 'pa', 'si', 'km', 'sn', 'yo', 'so', 'af', 'oc', 'ka', 'be',
+  'tg', 'sd', 'gu', 'am', 'yi', 'lo', 'uz', 'fo', 'ht', 'ps', 'tk', 'nn', 'mt', 'sa', 'lb', 'my', 'bo', 'tl',
+  'mg', 'as', 'tt', 'haw', 'ln', 'ha', 'ba', 'jw', 'su', 'yue',
+];
+
+const PARAKEET_V3_LANGUAGES = [
+  'bg', 'hr', 'cs', 'da', 'nl', 'en', 'et', 'fi', 'fr', 'de', 'el', 'hu', 'it',
+  'lv', 'lt', 'mt', 'pl', 'pt', 'ro', 'sk', 'sl', 'es', 'sv', 'ru', 'uk',
+];
+
 // Available models for download
-export const SHERPA_MODELS = {
+export const SHERPA_MODELS: Record<string, SherpaModelInfo> = {
   'whisper-tiny': {
     name: 'Whisper Tiny (75MB)',
-    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-whisper-tiny.tar.bz2',
+    url: `${RELEASES}/sherpa-onnx-whisper-tiny.tar.bz2`,
     folder: 'sherpa-onnx-whisper-tiny',
-    languages: ['en', 'tr', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'ru', 'zh', 'ja', 'ko'],
+    languages: WHISPER_LANGUAGES,
     type: 'stt',
+    family: 'whisper',
+    files: { encoder: 'tiny-encoder.onnx', decoder: 'tiny-decoder.onnx', tokens: 'tiny-tokens.txt' },
   },
   'whisper-base': {
     name: 'Whisper Base (142MB)',
-    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-whisper-base.tar.bz2',
+    url: `${RELEASES}/sherpa-onnx-whisper-base.tar.bz2`,
     folder: 'sherpa-onnx-whisper-base',
-    languages: ['en', 'tr', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'ru', 'zh', 'ja', 'ko'],
+    languages: WHISPER_LANGUAGES,
     type: 'stt',
+    family: 'whisper',
+    files: { encoder: 'base-encoder.onnx', decoder: 'base-decoder.onnx', tokens: 'base-tokens.txt' },
   },
   'whisper-small': {
     name: 'Whisper Small (488MB)',
-    url: 'https://github.com/k2-fsa/sherpa-onnx/releases/download/asr-models/sherpa-onnx-whisper-small.tar.bz2',
+    url: `${RELEASES}/sherpa-onnx-whisper-small.tar.bz2`,
     folder: 'sherpa-onnx-whisper-small',
-    languages: ['en', 'tr', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'ru', 'zh', 'ja', 'ko'],
+    languages: WHISPER_LANGUAGES,
+    type: 'stt',
+    family: 'whisper',
+    files: { encoder: 'small-encoder.onnx', decoder: 'small-decoder.onnx', tokens: 'small-tokens.txt' },
+  },
+  'moonshine-tiny-en': {
+    name: 'Moonshine Tiny English (int8, 50MB)',
+    url: `${RELEASES}/sherpa-onnx-moonshine-tiny-en-int8.tar.bz2`,
+    folder: 'sherpa-onnx-moonshine-tiny-en-int8',
+    languages: ['en'],
+    type: 'stt',
+    family: 'moonshine',
+    files: {
+      preprocessor: 'preprocess.onnx',
+      encoder: 'encode.int8.onnx',
+      uncachedDecoder: 'uncached_decode.int8.onnx',
+      cachedDecoder: 'cached_decode.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'moonshine-base-en': {
+    name: 'Moonshine Base English (int8, 130MB)',
+    url: `${RELEASES}/sherpa-onnx-moonshine-base-en-int8.tar.bz2`,
+    folder: 'sherpa-onnx-moonshine-base-en-int8',
+    languages: ['en'],
+    type: 'stt',
+    family: 'moonshine',
+    files: {
+      preprocessor: 'preprocess.onnx',
+      encoder: 'encode.int8.onnx',
+      uncachedDecoder: 'uncached_decode.int8.onnx',
+      cachedDecoder: 'cached_decode.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'sense-voice': {
+    name: 'SenseVoice Chinese/English/Japanese/Korean/Cantonese (int8, 230MB)',
+    url: `${RELEASES}/sherpa-onnx-sense-voice-zh-en-ja-ko-yue-2024-07-17.tar.bz2`,
+    folder: 'sherpa-onnx-sense-voice-zh-en-ja-ko-yue-2024-07-17',
+    languages: ['zh', 'en', 'ja', 'ko', 'yue'],
+    type: 'stt',
+    family: 'sense-voice',
+    files: { model: 'model.int8.onnx', tokens: 'tokens.txt' },
+  },
+  'paraformer-zh': {
+    name: 'Paraformer Chinese/English (int8, 220MB)',
+    url: `${RELEASES}/sherpa-onnx-paraformer-zh-2024-03-09.tar.bz2`,
+    folder: 'sherpa-onnx-paraformer-zh-2024-03-09',
+    languages: ['zh', 'en'],
+    type: 'stt',
+    family: 'paraformer',
+    files: { model: 'model.int8.onnx', tokens: 'tokens.txt' },
+  },
+  'parakeet-tdt-0.6b-v2': {
+    name: 'NeMo Parakeet TDT 0.6B v2 English (int8, 630MB)',
+    url: `${RELEASES}/sherpa-onnx-nemo-parakeet-tdt-0.6b-v2-int8.tar.bz2`,
+    folder: 'sherpa-onnx-nemo-parakeet-tdt-0.6b-v2-int8',
+    languages: ['en'],
     type: 'stt',
+    family: 'nemo-transducer',
+    files: {
+      encoder: 'encoder.int8.onnx',
+      decoder: 'decoder.int8.onnx',
+      joiner: 'joiner.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'parakeet-tdt-0.6b-v3': {
+    name: 'NeMo Parakeet TDT 0.6B v3 European languages (int8, 640MB)',
+    url: `${RELEASES}/sherpa-onnx-nemo-parakeet-tdt-0.6b-v3-int8.tar.bz2`,
+    folder: 'sherpa-onnx-nemo-parakeet-tdt-0.6b-v3-int8',
+    languages: PARAKEET_V3_LANGUAGES,
+    type: 'stt',
+    family: 'nemo-transducer',
+    files: {
+      encoder: 'encoder.int8.onnx',
+      decoder: 'decoder.int8.onnx',
+      joiner: 'joiner.int8.onnx',
+      tokens: 'tokens.txt',
+    },
+  },
+  'zipformer-gigaspeech-en': {
+    name: 'Zipformer Transducer English GigaSpeech (int8, 70MB)',
+    url: `${RELEASES}/sherpa-onnx-zipformer-gigaspeech-2023-12-12.tar.bz2`,
+    folder: 'sherpa-onnx-zipformer-gigaspeech-2023-12-12',
+    languages: ['en'],
+    type: 'stt',
+    family: 'transducer',
+    files: {
+      encoder: 'encoder-epoch-30-avg-1.int8.onnx',
+      decoder: 'decoder-epoch-30-avg-1.onnx',
+      joiner: 'joiner-epoch-30-avg-1.int8.onnx',
+      tokens: 'tokens.txt',
+    },
   },
 };
 
 export interface SherpaOnnxConfig {
-  model: keyof typeof SHERPA_MODELS;
+  // Id in SHERPA_MODELS
+  model: string;
+  // Language code, or 'auto' to identify the language of each utterance
   language: string;
+  // Languages 'auto' may choose from (empty: any the model supports)
+  languages?: string[];
+  // translate: Whisper translates the speech to English
+  task?: WhisperTask;
+  // Terms to bias recognition towards (transducer models only, not NeMo)
+  hotwords?: string[];
+  hotwordsScore?: number;
+}
+
+/**
+ * OfflineRecognizer model config for a model family
+ * @param file - Absolute path of a model file by role
+ */
+export function buildModelConfig(
+  info: SherpaModelInfo,
+  file: (role: string) => string,
+  language: string,
+  task: WhisperTask
+): Record<string, unknown> {
+  switch (info.family) {
+    case 'whisper':
+      return { whisper: { encoder: file('encoder'), decoder: file('decoder'), language, task } };
+    case 'moonshine':
+      return {
+        moonshine: {
+          preprocessor: file('preprocessor'),
+          encoder: file('encoder'),
+          uncachedDecoder: file('uncachedDecoder'),
+          cachedDecoder: file('cachedDecoder'),
+        },
+      };
+    case 'sense-voice':
+      // 'auto' lets SenseVoice detect the language
+      return {
+        senseVoice: {
+          model: file('model'),
+          language: info.languages.includes(language) ? language : 'auto',
+          useInverseTextNormalization: 1,
+        },
+      };
+    case 'paraformer':
+      return { paraformer: { model: file('model') } };
+    case 'nemo-transducer':
+      return {
+        transducer: { encoder: file('encoder'), decoder: file('decoder'), joiner: file('joiner') },
+        modelType: 'nemo_transducer',
+      };
+    case 'transducer':
+      return { transducer: { encoder: file('encoder'), decoder: file('decoder'), joiner: file('joiner') } };
+    default:
+      throw new Error(`Unknown model family: ${(info as SherpaModelInfo).family}`);
+  }
 }
 
-export class SherpaOnnxProvider {
-  name = 'sherpa-onnx';
+export class SherpaOnnxProvider implements STTProvider {
+  readonly name = 'sherpa-onnx';
   private config: SherpaOnnxConfig;
+  private info: SherpaModelInfo | null = null;
+  private modelPath = '';
+  // One loaded model at a time, and the language:task it decodes (Whisper fixes both per recognizer)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private recognizer: any = null;
+  private recognizerKey = '';
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private languageId: any = null;
+  // Tokenized stt hotwords (transducer models)
+  private hotwordsFile: string | null = null;
   private ready = false;
+  // Last decode started, settled or not
+  private decoding: Promise<unknown> = Promise.resolve();
 
   constructor(config: SherpaOnnxConfig) {
     this.config = config;
-    this.initialize();
   }
 
-  private async initialize(): Promise<void> {
+  get model(): string {
+    return this.config.model;
+  }
+
+  get capabilities(): STTCapabilities {
+    const info = SHERPA_MODELS[this.config.model];
+    return {
+      languages: info?.languages || [],
+      translate: info?.family === 'whisper',
+      languageDetection: info?.family === 'whisper' || info?.family === 'sense-voice',
+      local: true,
+    };
+  }
+
+  /**
+   * Load the model
+   * @throws STTInitError when the model, one of its files, the native library or the language is missing
+   */
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+
     const modelInfo = SHERPA_MODELS[this.config.model];
     if (!modelInfo) {
-      console.error(`Unknown model: ${this.config.model}`);
-      return;
+      throw new STTInitError(
+        'model-missing',
+        `Unknown model: ${this.config.model}`,
+        'Run: claude-voice-light model list'
+      );
     }
 
     const modelsDir = getModelsDir();
     const modelPath = path.join(modelsDir, modelInfo.folder);
 
     if (!fs.existsSync(modelPath)) {
-      console.warn(`Model not found: ${modelPath}`);
-      console.warn(`Run: claude-voice-light model download`);
-      return;
+      throw new STTInitError(
+        'model-missing',
+        `Model not installed: ${modelPath}`,
+        `Run: claude-voice-light model download ${this.config.model}`
+      );
+    }
+
+    const missing = Object.values(modelInfo.files).filter((name) => !fs.existsSync(path.join(modelPath, name)));
+    if (missing.length > 0) {
+      throw new STTInitError(
+        'file-missing',
+        `Model ${this.config.model} is incomplete, missing: ${missing.join(', ')}`,
+        `Delete ${modelPath} and run: claude-voice-light model download ${this.config.model}`
+      );
+    }
+
+    const requested = this.config.language === 'auto' ? this.config.languages || [] : [this.config.language];
+    const unsupported = requested.filter((l) => l && !modelInfo.languages.includes(l));
+    if (unsupported.length > 0) {
+      throw new STTInitError(
+        'unsupported-language',
+        `${this.config.model} does not support: ${unsupported.join(', ')}`,
+        `Supported: ${modelInfo.languages.join(', ')}`
+      );
     }
+    if (this.config.task === 'translate' && modelInfo.family !== 'whisper') {
+      console.warn(`${this.config.model} cannot translate, transcribing instead`);
+    }
+
+    this.info = modelInfo;
+    this.modelPath = modelPath;
+    this.hotwordsFile =
+      modelInfo.family === 'transducer'
+        ? writeHotwordsFile(this.config.hotwords || [], modelPath, this.config.model)
+        : null;
+
+    // Fails here rather than on the first command
+    loadBinding('sherpa-onnx-node/non-streaming-asr');
 
     try {
-      const { OfflineRecognizer } = require('sherpa-onnx-node/non-streaming-asr');
-
-      // Model file naming: whisper-tiny -> tiny-encoder.onnx, etc.
-      const modelPrefix = this.config.model.replace('whisper-', '');
-
-      // Configure for whisper model
-      this.recognizer = new OfflineRecognizer({
-        modelConfig: {
-          whisper: {
-            encoder: path.join(modelPath, `${modelPrefix}-encoder.onnx`),
-            decoder: path.join(modelPath, `${modelPrefix}-decoder.onnx`),
-            language: this.config.language || 'en',
-            task: 'transcribe',
-          },
-          tokens: path.join(modelPath, `${modelPrefix}-tokens.txt`),
+      // Language identification needs a multilingual Whisper model; SenseVoice detects on its own
+      if (this.config.language === 'auto' && modelInfo.family === 'whisper') {
+        const { SpokenLanguageIdentification } = loadBinding('sherpa-onnx-node/spoken-language-identification');
+        this.languageId = new SpokenLanguageIdentification({
+          whisper: { encoder: this.file('encoder'), decoder: this.file('decoder') },
           numThreads: 2,
           debug: false,
           provider: 'cpu',
-        },
-      });
+        });
+      }
 
-      this.ready = true;
-      console.log(`STT initialized with model: ${this.config.model}`);
+      const senseVoiceAuto = this.config.language === 'auto' && modelInfo.family === 'sense-voice';
+      this.getRecognizer(senseVoiceAuto ? 'auto' : this.getDefaultLanguage(), this.config.task || 'transcribe');
     } catch (error) {
-      console.error('Failed to initialize Sherpa-ONNX:', error);
+      this.recognizer = null;
+      this.recognizerKey = '';
+      this.languageId = null;
+      throw new STTInitError(
+        'model-load',
+        `Cannot load model ${this.config.model}: ${(error as Error).message}`,
+        `The files may be corrupt. Delete ${modelPath} and run: claude-voice-light model download ${this.config.model}`
+      );
     }
+
+    this.ready = true;
+    const auto = this.config.language === 'auto' ? ` (auto: ${this.config.languages?.join(', ') || 'any'})` : '';
+    console.log(`STT initialized with model: ${this.config.model}${auto}`);
   }
 
-  async transcribe(audioPath: string): Promise<string> {
-    if (!this.ready || !this.recognizer) {
-      throw new Error('Sherpa-ONNX not initialized. Download a model first.');
+  private file(role: string): string {
+    const name = this.info!.files[role];
+    if (!name) {
+      throw new Error(`Model ${this.config.model} has no ${role} file`);
     }
+    return path.join(this.modelPath, name);
+  }
 
-    try {
-      // Read WAV file
-      const samples = await this.readWavFile(audioPath);
+  private getDefaultLanguage(): string {
+    if (this.config.language !== 'auto') {
+      return this.config.language || 'en';
+    }
+    return this.config.languages?.[0] || this.info?.languages[0] || 'en';
+  }
 
-      // Create stream and process
-      const stream = this.recognizer.createStream();
-      stream.acceptWaveform({ samples, sampleRate: 16000 });
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private getRecognizer(language: string, task: WhisperTask): any {
+    const info = this.info!;
+    // Only Whisper and SenseVoice take a language, only Whisper translates
+    const key =
+      info.family === 'whisper' ? `${language}:${task}` : info.family === 'sense-voice' ? language : 'default';
+
+    if (this.recognizer && this.recognizerKey === key) {
+      return this.recognizer;
+    }
 
-      this.recognizer.decode(stream);
-      const result = this.recognizer.getResult(stream);
+    const config = {
+      modelConfig: {
+        ...buildModelConfig(info, (role) => this.file(role), language, task),
+        tokens: this.file('tokens'),
+        numThreads: 2,
+        debug: false,
+        provider: 'cpu',
+      },
+      // Hotwords need beam search
+      ...(this.hotwordsFile
+        ? {
+            decodingMethod: 'modified_beam_search',
+            maxActivePaths: 4,
+            hotwordsFile: this.hotwordsFile,
+            hotwordsScore: this.config.hotwordsScore || 1.5,
+          }
+        : {}),
+    };
+
+    if (this.recognizer && info.family === 'whisper') {
+      // Switches language and task without loading the model again
+      this.recognizer.setConfig(config);
+    } else {
+      // Replaces the loaded model rather than keeping a copy per language
+      const { OfflineRecognizer } = loadBinding('sherpa-onnx-node/non-streaming-asr');
+      this.recognizer = new OfflineRecognizer(config);
+    }
+    this.recognizerKey = key;
+    return this.recognizer;
+  }
 
-      return result.text?.trim() || '';
-    } catch (error) {
-      console.error('Transcription error:', error);
-      throw error;
+  /**
+   * Identify the spoken language, restricted to the allow-list
+   */
+  private detectLanguage(samples: Float32Array, sampleRate: number): string {
+    if (!this.languageId) {
+      return this.getDefaultLanguage();
     }
+
+    const stream = this.languageId.createStream();
+    stream.acceptWaveform({ samples, sampleRate });
+    const detected: string = this.languageId.compute(stream);
+
+    const allowed = this.config.languages || [];
+    if (detected && (allowed.length === 0 || allowed.includes(detected))) {
+      return detected;
+    }
+
+    // Language ID only reports its best guess - use the primary language instead
+    if (detected) {
+      console.log(`Detected language ${detected} is not in stt.languages, using ${this.getDefaultLanguage()}`);
+    }
+    return this.getDefaultLanguage();
   }
 
-  private async readWavFile(filePath: string): Promise<Float32Array> {
-    const buffer = fs.readFileSync(filePath);
+  /**
+   * Transcribe in-memory audio and report the language it was decoded as
+   * (sherpa-onnx resamples to the model rate if needed)
+   */
+  async transcribe(
+    samples: Float32Array,
+    sampleRate: number,
+    options: RecognizeOptions = {}
+  ): Promise<RecognitionResult> {
+    if (!this.ready) {
+      throw new Error('Sherpa-ONNX not initialized. Download a model first.');
+    }
 
-    // Parse WAV header (skip first 44 bytes for standard WAV)
-    const dataStart = 44;
-    const samples = new Float32Array((buffer.length - dataStart) / 2);
+    // One decode at a time: a decode that timed out may still be using the recognizer
+    const run = this.decoding.then(() => this.decode(samples, sampleRate, options));
+    this.decoding = run.catch(() => undefined);
+    return run;
+  }
 
-    for (let i = 0; i < samples.length; i++) {
-      const sample = buffer.readInt16LE(dataStart + i * 2);
-      samples[i] = sample / 32768.0; // Normalize to [-1, 1]
+  private async decode(
+    samples: Float32Array,
+    sampleRate: number,
+    options: RecognizeOptions
+  ): Promise<RecognitionResult> {
+    // Disposed while waiting for the previous decode
+    if (!this.ready) {
+      throw new Error('Sherpa-ONNX not initialized. Download a model first.');
     }
 
-    return samples;
+    try {
+      let language = options.language || this.detectLanguage(samples, sampleRate);
+      const autoDetect = this.config.language === 'auto' && this.info!.family === 'sense-voice';
+      const task = this.info!.family === 'whisper' ? options.task || this.config.task || 'transcribe' : 'transcribe';
+      const recognizer = this.getRecognizer(autoDetect && !options.language ? 'auto' : language, task);
+
+      // Create stream and process
+      const stream = recognizer.createStream();
+      stream.acceptWaveform({ samples, sampleRate });
+
+      // Decodes off the main thread, so stt.timeout can fire while it runs
+      const result = await recognizer.decodeAsync(stream);
+
+      // SenseVoice reports the language it detected ("<|en|>")
+      const detected = /^<\|(\w+)\|>$/.exec(result.lang || '');
+      if (detected) {
+        language = detected[1];
+      }
+
+      return { text: result.text?.trim() || '', language, task };
+    } catch (error) {
+      console.error('Transcription error:', error);
+      throw error;
+    }
   }
 
   isReady(): boolean {
     return this.ready;
   }
+
+  dispose(): void {
+    this.recognizer = null;
+    this.recognizerKey = '';
+    this.languageId = null;
+    this.ready = false;
+  }
 }
 
 /**
  * Download a Sherpa-ONNX model
  */
-export async function downloadModel(modelId: keyof typeof SHERPA_MODELS): Promise<void> {
+export async function downloadModel(modelId: string): Promise<void> {
   const modelInfo = SHERPA_MODELS[modelId];
   if (!modelInfo) {
     throw new Error(`Unknown model: ${modelId}`);
@@ -229,11 +603,18 @@ export async function downloadModel(modelId: keyof typeof SHERPA_MODELS): Promis
 /**
  * List available and installed models
  */
-export function listModels(): { id: string; name: string; installed: boolean; languages: string[] }[] {
+export function listModels(): {
+  id: string;
+  name: string;
+  family: ModelFamily;
+  installed: boolean;
+  languages: string[];
+}[] {
   const modelsDir = getModelsDir();
   return Object.entries(SHERPA_MODELS).map(([id, info]) => ({
     id,
     name: info.name,
+    family: info.family,
     installed: fs.existsSync(path.join(modelsDir, info.folder)),
     languages: info.languages,
   }));
@@ -0,0 +1,117 @@
+/**
+ * whisper.cpp server provider - sends command audio to a local `whisper-server`
+ * (POST /inference)
+ */
+
+import { STTProviderSettings } from '../../config';
+import { encodeWav } from '../../utils/audio';
+import { float32ToBuffer } from '../../utils/silence';
+import {
+  RecognitionResult,
+  RecognizeOptions,
+  STTCapabilities,
+  STTProvider,
+  STTProviderOptions,
+  WhisperTask,
+} from '../provider';
+import { STTInitError } from '../errors';
+import { PROBE_TIMEOUT, joinUrl, postAudio, probeUrl } from './http';
+
+const DEFAULT_TIMEOUT = 30000;
+
+export class WhisperCppProvider implements STTProvider {
+  readonly name = 'whisper-cpp';
+  // The server decides which model runs, so anything it transcribes is accepted
+  readonly capabilities: STTCapabilities = { languages: [], translate: true, languageDetection: true, local: true };
+  private options: STTProviderOptions;
+  private settings: STTProviderSettings;
+  private ready = false;
+
+  constructor(options: STTProviderOptions) {
+    this.options = options;
+    this.settings = options.settings;
+  }
+
+  get model(): string {
+    return this.settings.model || 'whisper-cpp';
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.settings.url) {
+      throw new STTInitError('config', 'stt.providers.whisper-cpp.url is not set');
+    }
+    try {
+      new URL(this.settings.url);
+    } catch {
+      throw new STTInitError('config', `Invalid stt.providers.whisper-cpp.url: ${this.settings.url}`);
+    }
+    // Any reply means the server is up
+    try {
+      await probeUrl(joinUrl(this.settings.url, ''), { timeout: PROBE_TIMEOUT });
+    } catch (error) {
+      throw new STTInitError(
+        'server-unreachable',
+        `whisper.cpp server not reachable: ${(error as Error).message}`,
+        'Start whisper-server or check stt.providers.whisper-cpp.url'
+      );
+    }
+    this.ready = true;
+    console.log(`STT initialized with whisper.cpp server: ${this.settings.url}`);
+  }
+
+  async transcribe(
+    samples: Float32Array,
+    sampleRate: number,
+    options: RecognizeOptions = {}
+  ): Promise<RecognitionResult> {
+    if (!this.ready) {
+      throw new Error('whisper.cpp provider not initialized');
+    }
+
+    const task = options.task || this.options.task;
+    const auto = this.options.language === 'auto' && !options.language;
+    const language = auto ? 'auto' : options.language || this.options.language;
+    const result = await this.request(samples, sampleRate, language, task);
+
+    // Re-decode in the primary language when the detected one is not allowed
+    const allowed = this.options.languages;
+    if (auto && allowed.length > 0 && !allowed.includes(result.language)) {
+      console.log(`Detected language ${result.language} is not in stt.languages, using ${allowed[0]}`);
+      return this.request(samples, sampleRate, allowed[0], task);
+    }
+    return result;
+  }
+
+  private async request(
+    samples: Float32Array,
+    sampleRate: number,
+    language: string,
+    task: WhisperTask
+  ): Promise<RecognitionResult> {
+    const reply = await postAudio(
+      joinUrl(this.settings.url!, 'inference'),
+      {
+        response_format: 'verbose_json',
+        temperature: '0',
+        language,
+        translate: task === 'translate' ? 'true' : 'false',
+      },
+      encodeWav(float32ToBuffer(samples), sampleRate, 1),
+      { timeout: this.settings.timeout || DEFAULT_TIMEOUT }
+    );
+
+    return {
+      text: String(reply.text || '').trim(),
+      language: language === 'auto' ? reply.language || this.options.languages[0] || 'en' : language,
+      task,
+    };
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  dispose(): void {
+    this.ready = false;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Transcript quality signals - spot output a fast model likely got wrong
+ */
+
+export interface QualityOptions {
+  // Below this many characters per second of speech the transcript is suspect
+  minCharsPerSecond: number;
+  // Same word sequence this many times in a row counts as a loop
+  maxRepeats: number;
+  // Known hallucinations (phrases of three or more words also match at the end of a transcript)
+  hallucinations: string[];
+}
+
+export interface QualityAssessment {
+  reliable: boolean;
+  // Why the transcript is unreliable ("empty", "repetition", "too short", "hallucination")
+  reasons: string[];
+}
+
+// Longest word sequence checked for loops
+const MAX_LOOP_WORDS = 4;
+
+/**
+ * Lowercase words without punctuation
+ */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a sequence of up to four words repeats back to back ("I'm sorry. I'm sorry. I'm sorry.")
+ */
+export function hasRepetitionLoop(text: string, maxRepeats: number): boolean {
+  const w = words(text);
+
+  for (let n = 1; n <= MAX_LOOP_WORDS; n++) {
+    for (let start = 0; start + n * maxRepeats <= w.length; start++) {
+      const gram = w.slice(start, start + n).join(' ');
+      let count = 1;
+      while (w.slice(start + count * n, start + (count + 1) * n).join(' ') === gram) {
+        count++;
+      }
+      if (count >= maxRepeats) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * The known hallucination a transcript consists of (or ends with), if any
+ */
+export function matchHallucination(text: string, hallucinations: string[]): string | null {
+  const spoken = words(text).join(' ');
+  if (!spoken) return null;
+
+  for (const phrase of hallucinations) {
+    const normalized = words(phrase).join(' ');
+    if (!normalized) continue;
+
+    if (spoken === normalized) {
+      return phrase;
+    }
+    // Models append them to real speech; short phrases ("you", "bye") are common words
+    // and only count as a whole transcript
+    if (normalized.split(' ').length >= 3 && ` ${spoken}`.endsWith(` ${normalized}`)) {
+      return phrase;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a transcript for signs that the model misheard the audio
+ * @param speechDuration - Seconds of audio that may contain speech
+ */
+export function assessTranscript(text: string, speechDuration: number, options: QualityOptions): QualityAssessment {
+  const reasons: string[] = [];
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    return { reliable: false, reasons: ['empty'] };
+  }
+
+  if (hasRepetitionLoop(trimmed, options.maxRepeats)) {
+    reasons.push('repetition');
+  }
+
+  if (speechDuration > 0 && trimmed.length / speechDuration < options.minCharsPerSecond) {
+    reasons.push('too short');
+  }
+
+  if (matchHallucination(trimmed, options.hallucinations)) {
+    reasons.push('hallucination');
+  }
+
+  return { reliable: reasons.length === 0, reasons };
+}
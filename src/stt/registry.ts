@@ -0,0 +1,91 @@
+/**
+ * STT provider registry - maps stt.provider to a provider factory
+ */
+
+import * as path from 'path';
+import { STTConfig, getConfigDir } from '../config';
+import { STTProvider, STTProviderFactory, STTProviderOptions } from './provider';
+import { SherpaOnnxProvider } from './providers/sherpa-onnx';
+import { WhisperCppProvider } from './providers/whisper-cpp';
+import { OpenAIProvider } from './providers/openai';
+
+const providers: Record<string, STTProviderFactory> = {
+  'sherpa-onnx': (options) =>
+    new SherpaOnnxProvider({
+      model: options.model,
+      language: options.language,
+      languages: options.languages,
+      task: options.task,
+      hotwords: options.hotwords,
+      hotwordsScore: options.hotwordsScore,
+    }),
+  'whisper-cpp': (options) => new WhisperCppProvider(options),
+  openai: (options) => new OpenAIProvider(options),
+};
+
+/**
+ * Make a custom provider available to stt.provider
+ */
+export function registerProvider(name: string, factory: STTProviderFactory): void {
+  providers[name] = factory;
+}
+
+export function listProviders(): string[] {
+  return Object.keys(providers);
+}
+
+/**
+ * Load a third-party provider module (stt.providers.<name>.module)
+ * @param modulePath - Path relative to the config directory, absolute path, or package name
+ */
+function loadProviderModule(modulePath: string): STTProviderFactory {
+  const resolved = modulePath.startsWith('.') ? path.resolve(getConfigDir(), modulePath) : modulePath;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let loaded: any;
+  try {
+    loaded = require(resolved);
+  } catch (error) {
+    // Node appends the require stack
+    throw new Error(`Cannot load STT provider module ${modulePath}: ${(error as Error).message.split('\n')[0]}`);
+  }
+
+  const factory = loaded?.createProvider || loaded?.default?.createProvider;
+  if (typeof factory !== 'function') {
+    throw new Error(`STT provider module ${modulePath} does not export createProvider`);
+  }
+  return factory;
+}
+
+/**
+ * Create the provider configured as `name`
+ * @param overrides - Options that differ from stt (e.g. another model)
+ */
+export function createProvider(
+  name: string,
+  config: STTConfig,
+  overrides: Partial<Omit<STTProviderOptions, 'settings'>> = {}
+): STTProvider {
+  const settings = config.providers?.[name] || {};
+
+  if (settings.module && !providers[name]) {
+    registerProvider(name, loadProviderModule(settings.module));
+  }
+
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown STT provider: ${name}. Available: ${listProviders().join(', ')} ` +
+        `(or set stt.providers.${name}.module)`
+    );
+  }
+
+  return factory({
+    model: config.model,
+    language: config.language,
+    languages: config.languages || [],
+    task: config.task || 'transcribe',
+    settings,
+    ...overrides,
+  });
+}
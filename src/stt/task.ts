@@ -0,0 +1,90 @@
+/**
+ * Task modifiers - a phrase right after the wake word ("auf Englisch, ...")
+ * switches between transcription and translation for one utterance
+ */
+
+import { WhisperTask } from './provider';
+
+export interface TaskModifier {
+  phrase: string;
+  task: WhisperTask;
+  // Transcript without the phrase
+  rest: string;
+}
+
+/**
+ * Lowercase words without punctuation or accents ("İngilizce" matches "ingilizce")
+ */
+function words(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Remove the first `count` words (and the punctuation after them) from a transcript
+ */
+function dropLeadingWords(text: string, count: number): string {
+  const pattern = new RegExp(`^[^\\p{L}\\p{N}']*(?:[\\p{L}\\p{N}']+[^\\p{L}\\p{N}']*){${count}}`, 'u');
+  return text.replace(pattern, '').trim();
+}
+
+/**
+ * Whether the first `count` words end a clause ("In English, ..." but not "In English the word ...")
+ */
+function isLeadingClause(text: string, count: number): boolean {
+  const pattern = new RegExp(
+    `^[^\\p{L}\\p{N}']*(?:[\\p{L}\\p{N}']+[^\\p{L}\\p{N}']*){${count - 1}}[\\p{L}\\p{N}']+\\s*(?:[,.:;!?…–—-]|$)`,
+    'u'
+  );
+  return pattern.test(text);
+}
+
+/**
+ * Find a task modifier at the start of a transcript (longest phrase wins)
+ *
+ * The phrase must stand alone as a clause, and English speech never matches:
+ * "Verbatim quotes are needed here." is dictation.
+ * @param language - Language the transcript was recognized in (omit for a second pass)
+ */
+export function matchTaskModifier(
+  text: string,
+  modifiers: Record<string, WhisperTask | null>,
+  language?: string
+): TaskModifier | null {
+  if (language === 'en') {
+    return null;
+  }
+  const spoken = words(text);
+
+  const candidates = Object.entries(modifiers || {})
+    .filter((entry): entry is [string, WhisperTask] => !!entry[1])
+    .map(([phrase, task]) => ({ phrase, task, words: words(phrase) }))
+    .filter((m) => m.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  for (const candidate of candidates) {
+    if (candidate.words.every((word, i) => spoken[i] === word) && isLeadingClause(text, candidate.words.length)) {
+      return {
+        phrase: candidate.phrase,
+        task: candidate.task,
+        rest: dropLeadingWords(text, candidate.words.length),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Remove a modifier from the second pass, which may have rendered it differently
+ * (a translated "auf Englisch" reads "In English")
+ */
+export function stripTaskModifier(text: string, modifiers: Record<string, WhisperTask | null>): string {
+  const match = matchTaskModifier(text, modifiers);
+  return match ? match.rest : text;
+}
@@ -1,7 +1,8 @@
-import { exec, execSync, spawn } from 'child_process';
+import { exec, execFile, execSync, spawn } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface InputInjectorOptions {
   terminal?: 'Terminal' | 'iTerm' | 'auto';
@@ -55,22 +56,62 @@ export class TerminalInputInjector {
     await execAsync(`osascript ${args}`);
   }
 
+  /**
+   * Press a key, optionally with modifiers (e.g. "Escape", "shift+Return", "ctrl+c")
+   */
   async pressKey(key: string): Promise<void> {
+    const parts = key.split('+');
+    const name = parts.pop() || key;
+    const modifiers = parts.map(m => m.toLowerCase());
+
     if (process.platform === 'linux') {
       if (isWayland() && hasCommand('wtype')) {
         const keyMap: Record<string, string> = {
           return: 'Return', enter: 'Return', tab: 'Tab', space: 'space', escape: 'Escape',
         };
-        await execAsync(`wtype -k ${keyMap[key.toLowerCase()] || key}`);
+        const modMap: Record<string, string> = { ctrl: 'ctrl', control: 'ctrl', shift: 'shift', alt: 'alt', super: 'logo' };
+        // Argument arrays: the key may come from a spoken "press *" command
+        const args = [
+          ...modifiers.flatMap(m => ['-M', modMap[m] || m]),
+          '-k', keyMap[name.toLowerCase()] || name,
+          ...[...modifiers].reverse().flatMap(m => ['-m', modMap[m] || m]),
+        ];
+        await execFileAsync('wtype', args);
+      } else if (hasCommand('xdotool')) {
+        await execFileAsync('xdotool', ['key', '--', key]);
+      }
+      return;
+    }
+
+    if (process.platform === 'darwin') {
+      // Single characters ("ctrl+c") are typed, named keys pressed by key code
+      const action =
+        name.length === 1 ? `keystroke "${this.escapeForAppleScript(name)}"` : `key code ${this.getKeyCode(name)}`;
+      const modMap: Record<string, string> = {
+        ctrl: 'control down', control: 'control down', shift: 'shift down', alt: 'option down', cmd: 'command down',
+      };
+      const using = modifiers.length > 0 ? ` using {${modifiers.map(m => modMap[m]).filter(Boolean).join(', ')}}` : '';
+      await execFileAsync('osascript', ['-e', `tell application "System Events" to ${action}${using}`]);
+    }
+  }
+
+  /**
+   * Delete the last typed characters by pressing Backspace
+   */
+  async erase(count: number): Promise<void> {
+    if (count <= 0) return;
+
+    if (process.platform === 'linux') {
+      if (isWayland() && hasCommand('wtype')) {
+        await execAsync(`wtype ${Array(count).fill('-k BackSpace').join(' ')}`);
       } else if (hasCommand('xdotool')) {
-        await execAsync(`xdotool key ${key}`);
+        await execAsync(`xdotool key --repeat ${count} BackSpace`);
       }
       return;
     }
 
     if (process.platform === 'darwin') {
-      const keyCode = this.getKeyCode(key);
-      await execAsync(`osascript -e 'tell application "System Events" to key code ${keyCode}'`);
+      await execAsync(`osascript -e 'tell application "System Events"' -e 'repeat ${count} times' -e 'key code 51' -e 'end repeat' -e 'end tell'`);
     }
   }
 
@@ -248,9 +289,20 @@ end tell`;
     return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
   }
 
+  /**
+   * macOS key code of a named key
+   * @throws Error for a name it does not know (key code 0 is the "a" key)
+   */
   private getKeyCode(key: string): number {
-    const codes: Record<string, number> = { return: 36, enter: 36, tab: 48, space: 49, delete: 51, escape: 53 };
-    return codes[key.toLowerCase()] || 0;
+    const codes: Record<string, number> = {
+      return: 36, enter: 36, tab: 48, space: 49, delete: 51, backspace: 51, escape: 53,
+      left: 123, right: 124, down: 125, up: 126,
+    };
+    const code = codes[key.toLowerCase()];
+    if (code === undefined) {
+      throw new Error(`Unknown key: ${key}. Known keys: ${Object.keys(codes).join(', ')} or a single character`);
+    }
+    return code;
   }
 
   private delay(ms: number): Promise<void> {
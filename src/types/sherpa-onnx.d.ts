@@ -4,6 +4,7 @@ declare module 'sherpa-onnx-node' {
     createStream(): any;
     isReady(stream: any): boolean;
     decode(stream: any): void;
+    reset(stream: any): void;
     getResult(stream: any): { keyword: string };
     free(): void;
   }
@@ -13,8 +14,22 @@ declare module 'sherpa-onnx-node/non-streaming-asr' {
   export class OfflineRecognizer {
     constructor(config: any);
     createStream(): any;
+    setConfig(config: any): void;
     decode(stream: any): void;
+    decodeAsync(stream: any): Promise<{ text: string; lang?: string }>;
     getResult(stream: any): { text: string };
     free(): void;
   }
 }
+
+declare module 'sherpa-onnx-node/streaming-asr' {
+  export class OnlineRecognizer {
+    constructor(config: any);
+    createStream(): any;
+    isReady(stream: any): boolean;
+    decode(stream: any): void;
+    isEndpoint(stream: any): boolean;
+    reset(stream: any): void;
+    getResult(stream: any): { text: string };
+  }
+}
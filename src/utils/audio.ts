@@ -84,18 +84,12 @@ export function safeDeleteFile(filePath: string): void {
 }
 
 /**
- * Save audio buffer to WAV file
+ * Wrap raw PCM in a WAV container
  * @param audioBuffer - Raw PCM audio buffer (Int16)
- * @param outputPath - Path to save the WAV file
  * @param sampleRate - Sample rate of the audio
  * @param channels - Number of audio channels
  */
-export function saveToWav(
-  audioBuffer: Buffer,
-  outputPath: string,
-  sampleRate: number,
-  channels: number
-): void {
+export function encodeWav(audioBuffer: Buffer, sampleRate: number, channels: number): Buffer {
   // WAV header (44 bytes)
   const header = Buffer.alloc(44);
   const dataSize = audioBuffer.length;
@@ -120,6 +114,21 @@ export function saveToWav(
   header.write('data', 36);
   header.writeUInt32LE(dataSize, 40);
 
-  const wavBuffer = Buffer.concat([header, audioBuffer]);
-  fs.writeFileSync(outputPath, wavBuffer);
+  return Buffer.concat([header, audioBuffer]);
+}
+
+/**
+ * Save audio buffer to WAV file
+ * @param audioBuffer - Raw PCM audio buffer (Int16)
+ * @param outputPath - Path to save the WAV file
+ * @param sampleRate - Sample rate of the audio
+ * @param channels - Number of audio channels
+ */
+export function saveToWav(
+  audioBuffer: Buffer,
+  outputPath: string,
+  sampleRate: number,
+  channels: number
+): void {
+  fs.writeFileSync(outputPath, encodeWav(audioBuffer, sampleRate, channels));
 }
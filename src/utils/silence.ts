@@ -33,6 +33,22 @@ export function bufferToFloat32(buffer: Buffer): Float32Array {
   return samples;
 }
 
+/**
+ * Convert Float32Array samples back to an Int16 buffer
+ * @param samples - Samples normalized to [-1, 1]
+ * @returns Raw PCM audio buffer (Int16 little-endian)
+ */
+export function float32ToBuffer(samples: Float32Array): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(clamped * 32767), i * 2);
+  }
+
+  return buffer;
+}
+
 /**
  * Check if audio buffer represents silence
  * @param buffer - Raw PCM audio buffer
@@ -67,20 +83,21 @@ export function createSilenceDetectorState(): SilenceDetectorState {
  * @param buffer - Audio buffer to analyze
  * @param silenceAmplitude - Amplitude threshold for silence
  * @param silenceThresholdMs - Duration of silence to trigger end (ms)
+ * @param now - Current time in ms (wall clock by default, or position in the audio)
  * @returns Updated state and whether silence threshold was exceeded
  */
 export function updateSilenceDetector(
   state: SilenceDetectorState,
   buffer: Buffer,
   silenceAmplitude: number,
-  silenceThresholdMs: number
+  silenceThresholdMs: number,
+  now: number = Date.now()
 ): { state: SilenceDetectorState; shouldEnd: boolean } {
   const amplitude = calculateAmplitude(buffer);
-  const now = Date.now();
 
   if (amplitude < silenceAmplitude) {
     // Currently silent
-    if (!state.silenceStartTime) {
+    if (state.silenceStartTime === null) {
       // Just started being silent
       return {
         state: { ...state, silenceStartTime: now },
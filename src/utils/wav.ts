@@ -0,0 +1,190 @@
+/**
+ * Audio file decoding for transcription
+ */
+
+import * as fs from 'fs';
+import { spawnSync } from 'child_process';
+import { hasCommand } from '../platform';
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface DecodedAudio {
+  // Mono samples normalized to [-1, 1]
+  samples: Float32Array;
+  sampleRate: number;
+  // Channel count of the source (before downmixing)
+  channels: number;
+}
+
+/**
+ * Decode a WAV file by walking its RIFF chunks
+ *
+ * Supports 8/16/24/32-bit integer PCM, 32/64-bit float, and
+ * WAVE_FORMAT_EXTENSIBLE. Multi-channel audio is downmixed to mono.
+ */
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: Buffer | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    let size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    // Streamed WAVs may leave the size unset - take the rest of the file
+    if (id === 'data' && (size === 0 || size === 0xffffffff || body + size > buffer.length)) {
+      size = buffer.length - body;
+    }
+
+    if (id === 'fmt ') {
+      if (size < 16) {
+        throw new Error('Invalid fmt chunk');
+      }
+      format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+
+      // The real format is the first two bytes of the SubFormat GUID
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        format = buffer.readUInt16LE(body + 24);
+      }
+    } else if (id === 'data') {
+      data = buffer.subarray(body, body + size);
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (!sampleRate || !channels) {
+    throw new Error('Missing fmt chunk');
+  }
+  if (!data) {
+    throw new Error('Missing data chunk');
+  }
+
+  const read = sampleReader(format, bitsPerSample);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.length / frameSize);
+  const samples = new Float32Array(frames);
+
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let ch = 0; ch < channels; ch++) {
+      sum += read(data, i * frameSize + ch * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { samples, sampleRate, channels };
+}
+
+/**
+ * Get a function that reads one sample as a float in [-1, 1]
+ */
+function sampleReader(format: number, bits: number): (buf: Buffer, offset: number) => number {
+  if (format === WAVE_FORMAT_PCM) {
+    switch (bits) {
+      case 8:
+        // 8-bit WAV is unsigned
+        return (buf, o) => (buf.readUInt8(o) - 128) / 128;
+      case 16:
+        return (buf, o) => buf.readInt16LE(o) / 32768;
+      case 24:
+        return (buf, o) => buf.readIntLE(o, 3) / 8388608;
+      case 32:
+        return (buf, o) => buf.readInt32LE(o) / 2147483648;
+    }
+  }
+
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bits) {
+      case 32:
+        return (buf, o) => buf.readFloatLE(o);
+      case 64:
+        return (buf, o) => buf.readDoubleLE(o);
+    }
+  }
+
+  throw new Error(`Unsupported WAV encoding (format ${format}, ${bits}-bit)`);
+}
+
+/**
+ * Resample mono audio with linear interpolation
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const length = Math.max(1, Math.round(samples.length / ratio));
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = samples[Math.min(index, samples.length - 1)] * (1 - fraction) + samples[next] * fraction;
+  }
+
+  return output;
+}
+
+/**
+ * Decode a non-WAV file with ffmpeg (if installed) to 16-bit mono PCM
+ */
+function decodeWithFfmpeg(filePath: string, sampleRate: number): DecodedAudio {
+  if (!hasCommand('ffmpeg')) {
+    throw new Error('Only WAV files are supported without ffmpeg. Install ffmpeg or convert to WAV.');
+  }
+
+  const result = spawnSync(
+    'ffmpeg',
+    ['-v', 'error', '-i', filePath, '-f', 's16le', '-ac', '1', '-ar', String(sampleRate), '-'],
+    { maxBuffer: 1024 * 1024 * 1024 }
+  );
+
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg failed: ${result.stderr?.toString().trim() || `exit code ${result.status}`}`);
+  }
+
+  const pcm = result.stdout;
+  const samples = new Float32Array(Math.floor(pcm.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = pcm.readInt16LE(i * 2) / 32768;
+  }
+
+  return { samples, sampleRate, channels: 1 };
+}
+
+/**
+ * Read an audio file as mono samples at the given sample rate
+ * @param filePath - WAV file (or any format ffmpeg can read)
+ * @param sampleRate - Target sample rate
+ */
+export function readAudioFile(filePath: string, sampleRate: number): DecodedAudio {
+  const buffer = fs.readFileSync(filePath);
+
+  const decoded =
+    buffer.toString('ascii', 0, 4) === 'RIFF' ? decodeWav(buffer) : decodeWithFfmpeg(filePath, sampleRate);
+
+  return {
+    samples: resample(decoded.samples, decoded.sampleRate, sampleRate),
+    sampleRate,
+    channels: decoded.channels,
+  };
+}
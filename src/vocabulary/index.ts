@@ -0,0 +1,283 @@
+/**
+ * Custom vocabulary - fixes technical terms the STT model mishears
+ * ("cube control" -> "kubectl") with exact, fuzzy and phonetic matching
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir, VocabularyConfig } from '../config';
+
+// Longest run of spoken words that can form one term ("p n p m")
+const MAX_WINDOW_WORDS = 4;
+
+// Shorter forms are only replaced on an exact match
+const MIN_FUZZY_LENGTH = 5;
+
+// Similarity required when the phonetic keys already agree
+const PHONETIC_SIMILARITY = 0.6;
+
+// ... and when the spoken words split the form differently: across word boundaries
+// ordinary words sound alike too ("ready is" and "Redis")
+const SPLIT_PHONETIC_SIMILARITY = 0.75;
+
+// Words a term is not put together across ("red is" is not "Redis") unless a sounds-like
+// form has them
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'if', 'in', 'is', 'it',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'up', 'we', 'with', 'you',
+]);
+
+export interface VocabularyEntry {
+  // How the term should be written
+  term: string;
+  // What the model writes instead ("cube control", "terra form")
+  soundsLike?: string[];
+}
+
+export interface Vocabulary {
+  terms: VocabularyEntry[];
+}
+
+export function getVocabularyPath(): string {
+  return path.join(getConfigDir(), 'vocabulary.json');
+}
+
+let cached: { mtimeMs: number; vocabulary: Vocabulary } | null = null;
+
+/**
+ * Load the user dictionary (re-read when the file changes)
+ */
+export function loadVocabulary(): Vocabulary {
+  const file = getVocabularyPath();
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return { terms: [] };
+  }
+
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.vocabulary;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const vocabulary: Vocabulary = { terms: Array.isArray(data.terms) ? data.terms : [] };
+    cached = { mtimeMs, vocabulary };
+    return vocabulary;
+  } catch (error) {
+    console.warn(`Failed to load vocabulary (${file}):`, (error as Error).message);
+    return { terms: [] };
+  }
+}
+
+export function saveVocabulary(vocabulary: Vocabulary): void {
+  fs.mkdirSync(getConfigDir(), { recursive: true });
+  fs.writeFileSync(getVocabularyPath(), JSON.stringify(vocabulary, null, 2));
+  cached = null;
+}
+
+/**
+ * Add a term (or merge new sounds-like forms into an existing one)
+ */
+export function addVocabularyTerm(term: string, soundsLike: string[] = []): VocabularyEntry {
+  const vocabulary = loadVocabulary();
+  const name = term.trim();
+  if (!name) {
+    throw new Error('Term is empty');
+  }
+
+  let entry = vocabulary.terms.find((e) => e.term.toLowerCase() === name.toLowerCase());
+  if (!entry) {
+    entry = { term: name };
+    vocabulary.terms.push(entry);
+  }
+
+  entry.term = name;
+  const forms = new Set([...(entry.soundsLike || []), ...soundsLike.map((s) => s.trim()).filter(Boolean)]);
+  if (forms.size > 0) {
+    entry.soundsLike = [...forms];
+  }
+
+  saveVocabulary(vocabulary);
+  return entry;
+}
+
+/**
+ * @returns false if the term was not in the dictionary
+ */
+export function removeVocabularyTerm(term: string): boolean {
+  const vocabulary = loadVocabulary();
+  const remaining = vocabulary.terms.filter((e) => e.term.toLowerCase() !== term.trim().toLowerCase());
+
+  if (remaining.length === vocabulary.terms.length) {
+    return false;
+  }
+
+  saveVocabulary({ terms: remaining });
+  return true;
+}
+
+/**
+ * Terms to bias recognition towards (for models that support hotwords)
+ * @param vocabulary - Dictionary to use instead of the user's
+ */
+export function getHotwords(config: VocabularyConfig, vocabulary?: Vocabulary): string[] {
+  return config.enabled ? (vocabulary || loadVocabulary()).terms.map((e) => e.term) : [];
+}
+
+/**
+ * Letters and digits only, lowercase - "Terra form." and "terraform" compare equal
+ */
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Rough English phonetic key: similar-sounding spellings map to the same key
+ */
+export function phoneticKey(word: string): string {
+  const s = compact(word)
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/dg/g, 'j')
+    .replace(/gh/g, 'g')
+    .replace(/^kn/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/th/g, '0');
+
+  if (!s) return '';
+
+  // Keep the first letter, drop later vowels, collapse repeats
+  return (s[0] + s.slice(1).replace(/[aeiouyhw]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Normalized edit similarity (1 = identical)
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+interface Form {
+  term: string;
+  compact: string;
+  phonetic: string;
+  // Words in the spoken form ("engine x": 2)
+  words: number;
+}
+
+/**
+ * Replace misheard terms in a transcript
+ */
+export function applyVocabulary(text: string, vocabulary: Vocabulary, config: VocabularyConfig): string {
+  const forms: Form[] = [];
+  for (const entry of vocabulary.terms) {
+    for (const spoken of [entry.term, ...(entry.soundsLike || [])]) {
+      const c = compact(spoken);
+      if (c) {
+        const words = spoken.trim().split(/\s+/).length;
+        forms.push({ term: entry.term, compact: c, phonetic: phoneticKey(c), words });
+      }
+    }
+  }
+
+  if (forms.length === 0) {
+    return text;
+  }
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    let best: { term: string; score: number; length: number } | null = null;
+
+    for (let n = Math.min(MAX_WINDOW_WORDS, words.length - i); n > 0; n--) {
+      const window = words.slice(i, i + n);
+      const joined = compact(window.join(''));
+      if (!joined) continue;
+      const functionWord = n > 1 && window.some((w) => FUNCTION_WORDS.has(compact(w)));
+
+      for (const form of forms) {
+        // Only a form spoken as that many words may span a function word
+        if (functionWord && n !== form.words) continue;
+        const score = matchScore(joined, n, form, config);
+        if (score > 0 && (!best || score > best.score)) {
+          best = { term: form.term, score, length: n };
+        }
+      }
+    }
+
+    if (!best) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    // Keep the punctuation around the replaced words
+    const first = words[i];
+    const last = words[i + best.length - 1];
+    const prefix = /^[^\p{L}\p{N}]*/u.exec(first)![0];
+    let suffix = /[^\p{L}\p{N}]*$/u.exec(last)![0];
+
+    // "P.N.P.M." - the final dot belongs to the abbreviation
+    if (suffix === '.' && /[\p{L}\p{N}]\.[\p{L}\p{N}]/u.test(last)) {
+      suffix = '';
+    }
+
+    output.push(prefix + best.term + suffix);
+    i += best.length;
+  }
+
+  return output.join(' ');
+}
+
+/**
+ * @param words - Number of spoken words joined into spoken
+ */
+function matchScore(spoken: string, words: number, form: Form, config: VocabularyConfig): number {
+  if (spoken === form.compact) {
+    return 1;
+  }
+
+  if (!config.fuzzy || form.compact.length < MIN_FUZZY_LENGTH || spoken.length < MIN_FUZZY_LENGTH - 1) {
+    return 0;
+  }
+
+  // Models split terms into more words, not fewer: "engine" is not a near miss of "engine x"
+  if (words < form.words) {
+    return 0;
+  }
+
+  const score = similarity(spoken, form.compact);
+  if (score >= config.threshold) {
+    return score;
+  }
+
+  // Sounds the same but spelled differently ("cubectl", "kuber nettis")
+  const required = words === form.words ? PHONETIC_SIMILARITY : SPLIT_PHONETIC_SIMILARITY;
+  if (form.phonetic && phoneticKey(spoken) === form.phonetic && score >= required) {
+    return config.threshold;
+  }
+
+  return 0;
+}
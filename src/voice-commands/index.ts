@@ -0,0 +1,219 @@
+/**
+ * Voice command grammar - spoken control phrases recognized before a
+ * transcript is sent ("cancel that", "don't send", "press escape", ...)
+ */
+
+import { CommandsConfig, KeywordAction, VoiceCommand } from '../config';
+import { runKeywordAction } from '../actions';
+import { TerminalInputInjector } from '../terminal/input-injector';
+
+// Commands that may end a dictated sentence ("fix the tests, don't send")
+const SUFFIX_COMMANDS: VoiceCommand['type'][] = ['cancel', 'hold', 'send', 'newline'];
+
+export interface ParsedUtterance {
+  // Dictated text with the command phrase removed
+  text: string;
+  command: VoiceCommand | null;
+  // The phrase that matched
+  phrase?: string;
+  // Words captured by a trailing "*"
+  arg?: string;
+}
+
+/**
+ * Live changes a command may need from the listener
+ */
+export interface VoiceCommandContext {
+  switchKeyword(keyword: string): Promise<void>;
+  setConfig(key: string, value: unknown): Promise<void>;
+  redo(): Promise<void>;
+}
+
+/**
+ * Lowercase and strip punctuation so "Press Escape." matches "press escape"
+ */
+export function normalizeSpoken(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'*\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find a control phrase in a transcript
+ *
+ * Key, keyword, config and redo commands must be the whole utterance. Cancel,
+ * hold, send and newline commands may also end a dictated sentence.
+ * @param keywords - Keywords a "switch to *" command may name (wakeWord.keywords)
+ */
+export function parseVoiceCommand(transcript: string, config: CommandsConfig, keywords: string[] = []): ParsedUtterance {
+  const words = transcript.trim().split(/\s+/).filter(Boolean);
+  const spoken = words.map(normalizeSpoken);
+  const whole = spoken.filter(Boolean).join(' ');
+
+  // Longest phrases first so "do not send" wins over a shorter overlap
+  const phrases = Object.entries(config.phrases || {})
+    .filter((entry): entry is [string, VoiceCommand] => !!entry[1])
+    .map(([phrase, command]) => ({ phrase, command, normalized: normalizeSpoken(phrase) }))
+    .sort((a, b) => b.normalized.length - a.normalized.length);
+
+  for (const { phrase, command, normalized } of phrases) {
+    if (normalized.endsWith('*')) {
+      const prefix = normalized.slice(0, -1).trim();
+      if (whole.startsWith(prefix + ' ') && whole.length > prefix.length + 1) {
+        let arg = whole.slice(prefix.length + 1);
+        if (command.type === 'keyword' && !command.keyword) {
+          // "switch to the other branch" is dictation unless it names a keyword
+          const named = keywords.find((k) => normalizeSpoken(k) === arg);
+          if (!named) continue;
+          arg = named;
+        }
+        return { text: '', command, phrase, arg };
+      }
+      continue;
+    }
+
+    if (whole === normalized) {
+      return { text: '', command, phrase };
+    }
+
+    if (!SUFFIX_COMMANDS.includes(command.type)) {
+      continue;
+    }
+
+    // Compare the trailing words, then cut them from the original text
+    const count = normalized.split(' ').length;
+    if (words.length > count && spoken.slice(-count).join(' ') === normalized) {
+      const text = words
+        .slice(0, -count)
+        .join(' ')
+        .replace(/[\s,;:-]+$/, '');
+      return { text, command, phrase };
+    }
+  }
+
+  return { text: transcript, command: null };
+}
+
+/**
+ * Text that runVoiceCommand will type or send for an utterance ('' for control-only commands)
+ */
+export function getOutputText(parsed: ParsedUtterance): string {
+  if (!parsed.command) {
+    return parsed.text;
+  }
+  return ['hold', 'send', 'newline'].includes(parsed.command.type) ? parsed.text : '';
+}
+
+/**
+ * Send a transcript, applying the control phrase it contains (if any)
+ */
+export async function runVoiceCommand(
+  parsed: ParsedUtterance,
+  action: KeywordAction,
+  keyword: string,
+  config: CommandsConfig,
+  context: VoiceCommandContext
+): Promise<void> {
+  const { command, text, arg } = parsed;
+
+  if (!command) {
+    await sendText(action, text, keyword, config, action.pressEnter !== false);
+    return;
+  }
+
+  const injector = new TerminalInputInjector({ terminal: 'auto' });
+
+  switch (command.type) {
+    case 'cancel':
+      console.log('(cancelled)');
+      return;
+
+    case 'hold':
+      if (text) {
+        await sendText(action, text, keyword, config, false);
+      }
+      return;
+
+    case 'send':
+      if (text) {
+        await sendText(action, text, keyword, config, true);
+      } else {
+        // Submit text typed earlier with "don't send"
+        await injector.pressKey('Return');
+      }
+      return;
+
+    case 'newline':
+      if (text) {
+        await sendText(action, text, keyword, config, false);
+      }
+      await injector.pressKey(config.newlineKey || 'shift+Return');
+      return;
+
+    case 'key': {
+      const key = command.key || arg;
+      if (!key) {
+        throw new Error(`Command "${parsed.phrase}" has no key`);
+      }
+      await injector.pressKey(key);
+      return;
+    }
+
+    case 'keyword': {
+      const target = command.keyword || arg;
+      if (!target) {
+        throw new Error(`Command "${parsed.phrase}" has no keyword`);
+      }
+      await context.switchKeyword(target);
+      return;
+    }
+
+    case 'config':
+      if (!command.configKey) {
+        throw new Error(`Command "${parsed.phrase}" has no configKey`);
+      }
+      await context.setConfig(command.configKey, command.value !== undefined ? command.value : arg);
+      return;
+
+    case 'redo':
+      await context.redo();
+      return;
+
+    default:
+      throw new Error(`Unknown voice command type: ${(command as VoiceCommand).type}`);
+  }
+}
+
+/**
+ * Send text to the keyword's sink, pressing commands.newlineKey for its line breaks
+ * (a typed "\n" is Return, which would submit the prompt)
+ */
+export async function sendText(
+  action: KeywordAction,
+  text: string,
+  keyword: string,
+  config: CommandsConfig,
+  pressEnter: boolean
+): Promise<void> {
+  const lines = text.split('\n');
+  if (action.type !== 'claude' || lines.length === 1) {
+    await runKeywordAction({ ...action, pressEnter }, text, keyword);
+    return;
+  }
+
+  const injector = new TerminalInputInjector({ terminal: 'auto' });
+  for (let i = 0; i < lines.length; i++) {
+    if (i > 0) {
+      await injector.pressKey(config.newlineKey || 'shift+Return');
+    }
+    if (lines[i]) {
+      await injector.type(lines[i], false);
+    }
+  }
+  if (pressEnter) {
+    await injector.pressKey('Return');
+  }
+}
@@ -1,12 +1,13 @@
 import { EventEmitter } from 'events';
-import { spawn } from 'child_process';
-import { execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
-import { WakeWordConfig, RecordingConfig, getModelsDir, getConfigDir } from '../config';
-import { getPlatformCapabilities } from '../platform';
+import { WakeWordConfig, KeywordVariant, RecordingConfig, getModelsDir, getConfigDir } from '../config';
+import { AudioSource, createAudioSource } from '../audio';
 import { playSound } from '../utils/audio';
-import { calculateAmplitude, bufferToFloat32 } from '../utils/silence';
+import { bufferToFloat32 } from '../utils/silence';
+import { Endpointer, createEndpointer } from '../endpointer';
+import { NoiseFloorTracker } from '../calibration';
+import { loadKeywordVocabulary, buildKeywordVariants, normalizePhrase } from './keyword-builder';
 
 // Model info for keyword spotting
 export const KWS_MODEL = {
@@ -17,6 +18,87 @@ export const KWS_MODEL = {
   size: '19 MB',
 };
 
+/**
+ * Get the keywords that should be listened for
+ */
+export function getActiveKeywords(config: WakeWordConfig): string[] {
+  const keywords = Array.isArray(config.keyword) ? config.keyword : [config.keyword];
+  return keywords.map((k) => k.toLowerCase().trim()).filter(Boolean);
+}
+
+/**
+ * Generate keyword spotter token variants for a phrase using the installed KWS model
+ * @returns The keyword name (as used in config) and its token variants
+ */
+export function buildKeyword(phrase: string, maxVariants?: number): { keyword: string; variants: string[] } {
+  const modelPath = path.join(getModelsDir(), KWS_MODEL.folder);
+  if (!fs.existsSync(modelPath)) {
+    throw new Error('Keyword spotting model not installed. Run: claude-voice-light model download');
+  }
+
+  const vocab = loadKeywordVocabulary(modelPath);
+  const variants = buildKeywordVariants(phrase, vocab, maxVariants);
+  const keyword = normalizePhrase(phrase).join(' ').toLowerCase();
+
+  return { keyword, variants };
+}
+
+/**
+ * Map sensitivity (0-1, higher = easier to trigger) to the spotter's
+ * default trigger threshold. 0.5 gives the spotter's own default of 0.25.
+ */
+export function sensitivityToThreshold(sensitivity: number): number {
+  const clamped = Math.min(1, Math.max(0, Number.isFinite(sensitivity) ? sensitivity : 0.5));
+  return Math.max(0.01, 0.5 * (1 - clamped));
+}
+
+/**
+ * Format one keywords file line: "tokens [:boost] [#threshold] @label"
+ * @returns null if the variant is invalid
+ */
+function formatKeywordLine(variant: string | KeywordVariant, label: string): string | null {
+  if (typeof variant === 'string') {
+    return variant.trim() ? `${variant.trim()} @${label}` : null;
+  }
+
+  if (!variant || typeof variant.tokens !== 'string' || !variant.tokens.trim()) {
+    return null;
+  }
+
+  const parts = [variant.tokens.trim()];
+
+  if (variant.boost !== undefined) {
+    if (!(variant.boost > 0)) return null;
+    parts.push(`:${variant.boost}`);
+  }
+
+  if (variant.threshold !== undefined) {
+    if (!(variant.threshold > 0 && variant.threshold < 1)) return null;
+    parts.push(`#${variant.threshold}`);
+  }
+
+  parts.push(`@${label}`);
+  return parts.join(' ');
+}
+
+/**
+ * Label for a keyword in the keywords file (no whitespace allowed)
+ */
+function keywordLabel(keyword: string): string {
+  return keyword.toUpperCase().replace(/\s+/g, '_');
+}
+
+// A loaded keyword spotter with its stream and the endpointer for command recording
+interface Spotter {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kws: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  stream: any;
+  endpointer: Endpointer;
+  // Keywords file label -> configured keyword name
+  labels: Map<string, string>;
+}
+
 /**
  * Sherpa-ONNX based wake word detector
  */
@@ -28,18 +110,45 @@ export class SherpaOnnxDetector extends EventEmitter {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private stream: any = null;
   private isListening = false;
+  private isPaused = false;
   private isRecordingCommand = false;
-  private recordingProcess: ReturnType<typeof spawn> | null = null;
+  // Manually triggered recording that ignores the endpointer
+  private holdRecording = false;
+  private source: AudioSource | null = null;
   private audioBuffer: Buffer[] = [];
-  private silenceStartTime: number | null = null;
+  private recordedMs = 0;
+  private endpointer: Endpointer | null = null;
+  private noiseTracker: NoiseFloorTracker | null = null;
+  private activeKeyword = '';
+  // Keywords file label -> configured keyword name
+  private labels = new Map<string, string>();
 
-  constructor(wakeWordConfig: WakeWordConfig, recordingConfig: RecordingConfig) {
+  /**
+   * @param source - Audio source to listen on (defaults to recording.source from config)
+   */
+  constructor(wakeWordConfig: WakeWordConfig, recordingConfig: RecordingConfig, source?: AudioSource) {
     super();
     this.config = wakeWordConfig;
     this.recordingConfig = recordingConfig;
+    this.source = source || null;
+
+    if (recordingConfig.adaptiveNoiseFloor) {
+      this.noiseTracker = new NoiseFloorTracker(recordingConfig.silenceAmplitude || 500);
+    }
   }
 
   async initialize(): Promise<void> {
+    const spotter = await this.createSpotter();
+    if (spotter) {
+      ({ kws: this.kws, stream: this.stream, endpointer: this.endpointer, labels: this.labels } = spotter);
+    }
+  }
+
+  /**
+   * Load the keyword spotter for the active keywords
+   * @returns null when the model is not installed
+   */
+  private async createSpotter(): Promise<Spotter | null> {
     const modelsDir = getModelsDir();
     const modelPath = path.join(modelsDir, KWS_MODEL.folder);
 
@@ -49,12 +158,14 @@ export class SherpaOnnxDetector extends EventEmitter {
         `Keyword spotting model not found. Download it with:\n  claude-voice-light model download`
       );
       console.log('Wake word detection will be disabled until model is installed.');
-      return;
+      return null;
     }
 
     // Get keywords file
-    const keywordsFile = this.getKeywordsFile(modelPath);
+    const { file: keywordsFile, labels } = this.getKeywordsFile(modelPath);
 
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let kws: any = null;
     try {
       // Dynamic import for sherpa-onnx
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -78,13 +189,21 @@ export class SherpaOnnxDetector extends EventEmitter {
           debug: 0,
         },
         keywordsFile: keywordsFile,
+        keywordsThreshold: sensitivityToThreshold(this.config.sensitivity),
       };
 
-      this.kws = new sherpaOnnx.KeywordSpotter(kwsConfig);
-      this.stream = this.kws.createStream();
+      kws = new sherpaOnnx.KeywordSpotter(kwsConfig);
+      const stream = kws.createStream();
+      const endpointer = createEndpointer(this.recordingConfig);
+      console.log(`Endpointing: ${endpointer.name}`);
 
-      console.log(`Wake word detector initialized (keyword: "${this.config.keyword}")`);
+      console.log(
+        `Wake word detector initialized (keywords: ${getActiveKeywords(this.config).join(', ')}, ` +
+          `sensitivity: ${this.config.sensitivity})`
+      );
+      return { kws, stream, endpointer, labels };
     } catch (error) {
+      kws?.free();
       console.error('Failed to initialize Sherpa-ONNX keyword spotter:', error);
       throw error;
     }
@@ -92,21 +211,44 @@ export class SherpaOnnxDetector extends EventEmitter {
 
   /**
    * Get keywords file path
+   *
+   * Every active keyword's variations are written with an "@label" suffix,
+   * so the spotter's result tells us which keyword matched.
+   * @returns The file and the keyword of each label
    */
-  private getKeywordsFile(modelPath: string): string {
-    const keyword = this.config.keyword.toLowerCase();
+  private getKeywordsFile(modelPath: string): { file: string; labels: Map<string, string> } {
     const keywords = this.config.keywords || {};
+    const lines: string[] = [];
+    const labels = new Map<string, string>();
+
+    for (const keyword of getActiveKeywords(this.config)) {
+      const tokenData = keywords[keyword];
+      if (!tokenData) {
+        console.warn(`Keyword "${keyword}" not found in config.`);
+        console.warn(`Available keywords: ${Object.keys(keywords).join(', ')}`);
+        continue;
+      }
 
-    const tokenData = keywords[keyword];
-    if (!tokenData) {
-      console.warn(`Keyword "${keyword}" not found in config.`);
-      console.warn(`Available keywords: ${Object.keys(keywords).join(', ')}`);
-      // Fallback to model's default keywords
-      return path.join(modelPath, 'keywords.txt');
+      // Handle both string and array formats
+      const variations = Array.isArray(tokenData) ? tokenData : [tokenData];
+      const label = keywordLabel(keyword);
+      labels.set(label, keyword);
+
+      for (const variant of variations) {
+        const line = formatKeywordLine(variant, label);
+        if (line) {
+          lines.push(line);
+        } else {
+          console.warn(`Skipping invalid variation for "${keyword}": ${JSON.stringify(variant)}`);
+        }
+      }
+      console.log(`Wake word: "${keyword}" (${variations.length} variations)`);
     }
 
-    // Handle both string and array formats
-    const lines = Array.isArray(tokenData) ? tokenData : [tokenData];
+    if (lines.length === 0) {
+      // Fallback to model's default keywords
+      return { file: path.join(modelPath, 'keywords.txt'), labels };
+    }
 
     // Write active keyword variations to file
     const configDir = getConfigDir();
@@ -116,8 +258,7 @@ export class SherpaOnnxDetector extends EventEmitter {
     const activeFile = path.join(configDir, 'active-keyword.txt');
     fs.writeFileSync(activeFile, lines.join('\n') + '\n');
 
-    console.log(`Wake word: "${keyword}" (${lines.length} variations)`);
-    return activeFile;
+    return { file: activeFile, labels };
   }
 
   async start(): Promise<void> {
@@ -136,77 +277,24 @@ export class SherpaOnnxDetector extends EventEmitter {
   }
 
   private startAudioCapture(): void {
-    const caps = getPlatformCapabilities();
-    const sampleRate = this.recordingConfig.sampleRate;
-
-    // Use sox on macOS, arecord on Linux
-    if (caps.platform === 'darwin') {
-      // Check if sox is installed
+    if (!this.source) {
       try {
-        execSync('which rec', { stdio: 'ignore' });
-      } catch {
-        console.error('');
-        console.error('  Wake word detection requires sox for audio capture.');
-        console.error('  Install it with: brew install sox');
-        console.error('');
+        this.source = createAudioSource(this.recordingConfig.source, this.recordingConfig.sampleRate);
+      } catch (error) {
+        console.error('Failed to create audio source:', error);
         return;
       }
-
-      // Use sox (rec command) for audio capture
-      this.recordingProcess = spawn(
-        'rec',
-        [
-          '-q', // Quiet mode
-          '-t',
-          'raw', // Raw audio format
-          '-b',
-          '16', // 16-bit
-          '-e',
-          'signed-integer',
-          '-c',
-          '1', // Mono
-          '-r',
-          String(sampleRate),
-          '-', // Output to stdout
-        ],
-        { stdio: ['ignore', 'pipe', 'ignore'] }
-      );
-    } else if (caps.platform === 'linux') {
-      // Check if arecord is installed
-      try {
-        execSync('which arecord', { stdio: 'ignore' });
-      } catch {
-        console.error('');
-        console.error('  Wake word detection requires alsa-utils for audio capture.');
-        console.error('  Install it with: sudo apt install alsa-utils');
-        console.error('');
-        return;
-      }
-
-      // Use arecord for audio capture
-      this.recordingProcess = spawn(
-        'arecord',
-        ['-q', '-f', 'S16_LE', '-c', '1', '-r', String(sampleRate), '-t', 'raw', '-'],
-        { stdio: ['ignore', 'pipe', 'ignore'] }
-      );
-    } else {
-      console.error('Audio capture not supported on this platform');
-      return;
-    }
-
-    if (!this.recordingProcess.stdout) {
-      console.error('Failed to start audio capture');
-      return;
     }
 
-    this.recordingProcess.stdout.on('data', (data: Buffer) => {
-      if (!this.isListening || !this.kws || !this.stream) {
+    this.source.on('data', (data: Buffer) => {
+      if (!this.isListening || this.isPaused || !this.kws || !this.stream) {
         return;
       }
 
       if (this.isRecordingCommand) {
         // Collecting audio for command transcription
         this.audioBuffer.push(data);
+        this.emit('commandAudio', data);
         this.checkSilenceAndFinish(data);
       } else {
         // Process audio for keyword detection
@@ -214,14 +302,27 @@ export class SherpaOnnxDetector extends EventEmitter {
       }
     });
 
-    this.recordingProcess.on('error', (err) => {
+    this.source.on('end', () => {
+      // Flush a command that was still being spoken when the audio ran out
+      if (this.isRecordingCommand) {
+        this.finishRecording();
+      }
+      this.emit('end');
+    });
+
+    this.source.on('error', (err) => {
       console.error('Audio capture error:', err);
     });
+
+    this.source.start();
   }
 
   private processAudioForKeyword(data: Buffer): void {
     if (!this.kws || !this.stream) return;
 
+    // Background audio between commands tracks the noise floor
+    this.noiseTracker?.update(data);
+
     // Convert Int16 buffer to Float32Array
     const samples = bufferToFloat32(data);
 
@@ -238,7 +339,12 @@ export class SherpaOnnxDetector extends EventEmitter {
 
     const result = this.kws.getResult(this.stream);
     if (result.keyword && result.keyword.trim() !== '') {
-      console.log(`Wake word detected: "${result.keyword}"`);
+      const label = result.keyword.trim();
+      const keyword = this.labels.get(label) || label.toLowerCase();
+      console.log(`Wake word detected: "${keyword}"`);
+
+      // Start fresh so the same keyword is not reported again
+      this.kws.reset(this.stream);
 
       // Play "listening" sound
       if (this.config.playSound) {
@@ -246,7 +352,8 @@ export class SherpaOnnxDetector extends EventEmitter {
       }
 
       // Start recording the command
-      this.emit('wakeword', 0);
+      this.activeKeyword = keyword;
+      this.emit('wakeword', keyword);
       this.startCommandRecording();
     }
   }
@@ -257,39 +364,168 @@ export class SherpaOnnxDetector extends EventEmitter {
     }
 
     this.isRecordingCommand = true;
+    this.holdRecording = false;
     this.audioBuffer = [];
-    this.silenceStartTime = null;
+    this.recordedMs = 0;
+    this.endpointer?.reset();
+
+    if (this.noiseTracker && this.endpointer?.setSilenceAmplitude) {
+      const amplitude = this.noiseTracker.getSilenceAmplitude();
+      this.endpointer.setSilenceAmplitude(amplitude);
+      if (amplitude !== this.recordingConfig.silenceAmplitude) {
+        console.log(`Noise floor ${this.noiseTracker.getNoiseFloor()}, silence amplitude ${amplitude}`);
+      }
+    }
+
     this.emit('listening');
   }
 
+  /**
+   * Timing is measured in audio time rather than wall-clock time,
+   * so file and pipe sources that deliver faster than real time behave the same
+   */
   private checkSilenceAndFinish(data: Buffer): void {
-    const amplitude = calculateAmplitude(data);
-    const silenceThreshold = this.recordingConfig.silenceThreshold;
-    const silenceAmplitude = this.recordingConfig.silenceAmplitude || 500;
-
-    if (amplitude < silenceAmplitude) {
-      if (!this.silenceStartTime) {
-        this.silenceStartTime = Date.now();
-      } else if (Date.now() - this.silenceStartTime > silenceThreshold) {
-        // End of speech detected
-        this.finishRecording();
-        return;
-      }
-    } else {
-      this.silenceStartTime = null;
+    // A 'commandAudio' listener may have ended the recording already (streaming endpoint)
+    if (!this.isRecordingCommand) {
+      return;
+    }
+
+    this.recordedMs += (data.length / 2 / this.recordingConfig.sampleRate) * 1000;
+
+    // End of speech detected (held push-to-talk waits for release)
+    if (this.endpointer?.accept(data) && !this.holdRecording) {
+      this.finishRecording();
+      return;
     }
 
     // Max duration check
-    const totalDuration =
-      (this.audioBuffer.reduce((sum, b) => sum + b.length, 0) / 2 / this.recordingConfig.sampleRate) * 1000;
-    if (totalDuration > this.recordingConfig.maxDuration) {
+    if (this.recordedMs > this.recordingConfig.maxDuration) {
+      this.finishRecording();
+    }
+  }
+
+  /**
+   * Start recording a command without the wake word (push-to-talk)
+   * @param keyword - Keyword whose action handles the transcript (default: first active keyword)
+   * @param options.hold - Keep recording until finishCommand() instead of ending on silence
+   * @returns false if not listening or a command is already being recorded
+   */
+  triggerCommand(keyword?: string, options: { hold?: boolean } = {}): boolean {
+    if (!this.isListening || this.isPaused || this.isRecordingCommand || !this.kws) {
+      return false;
+    }
+
+    if (this.config.playSound) {
+      playSound('Ping');
+    }
+
+    this.activeKeyword = keyword || getActiveKeywords(this.config)[0] || '';
+    this.emit('triggered', this.activeKeyword);
+    this.startCommandRecording();
+    this.holdRecording = options.hold === true;
+    return true;
+  }
+
+  /**
+   * Start recording, or finish the command if one is already being recorded
+   * @returns The resulting action, or null if the listener cannot record right now
+   */
+  toggleCommand(keyword?: string): 'started' | 'stopped' | null {
+    if (this.isRecordingCommand) {
+      this.finishRecording();
+      return 'stopped';
+    }
+    return this.triggerCommand(keyword) ? 'started' : null;
+  }
+
+  /**
+   * Stop reacting to audio until resume() (a command being recorded is discarded)
+   */
+  pause(): void {
+    if (this.isPaused) return;
+
+    this.isPaused = true;
+    this.isRecordingCommand = false;
+    this.audioBuffer = [];
+    this.emit('paused');
+  }
+
+  resume(): void {
+    if (!this.isPaused) return;
+
+    this.isPaused = false;
+    if (this.kws && this.stream) {
+      // Audio from before the pause must not trigger the keyword
+      this.kws.reset(this.stream);
+    }
+    this.emit('resumed');
+  }
+
+  getState(): 'stopped' | 'paused' | 'listening' | 'recording' {
+    if (!this.isListening) return 'stopped';
+    if (this.isPaused) return 'paused';
+    return this.isRecordingCommand ? 'recording' : 'listening';
+  }
+
+  getActiveKeywords(): string[] {
+    return getActiveKeywords(this.config);
+  }
+
+  /**
+   * Switch the active wake words without restarting audio capture
+   */
+  async setActiveKeywords(keywords: string[]): Promise<void> {
+    const names = keywords.map((k) => k.toLowerCase().trim()).filter(Boolean);
+    const unknown = names.filter((k) => !this.config.keywords[k]);
+
+    if (names.length === 0) {
+      throw new Error('No keywords given');
+    }
+    if (unknown.length > 0) {
+      throw new Error(`Unknown keyword: ${unknown.join(', ')}`);
+    }
+
+    // The current spotter keeps listening until the new one is loaded
+    const previous = this.config;
+    this.config = { ...this.config, keyword: names };
+    let spotter: Spotter | null;
+    try {
+      spotter = await this.createSpotter();
+      if (!spotter) {
+        throw new Error('Keyword spotting model not installed. Run: claude-voice-light model download');
+      }
+    } catch (error) {
+      this.config = previous;
+      throw error;
+    }
+
+    this.isRecordingCommand = false;
+    this.freeSpotter();
+    ({ kws: this.kws, stream: this.stream, endpointer: this.endpointer, labels: this.labels } = spotter);
+  }
+
+  /**
+   * End the command being recorded now (e.g. when push-to-talk is released)
+   */
+  finishCommand(): void {
+    if (this.isRecordingCommand) {
+      this.finishRecording();
+    }
+  }
+
+  /**
+   * A streaming recognizer hit an endpoint - end the command like silence would
+   * (held push-to-talk waits for release)
+   */
+  endpointReached(): void {
+    if (this.isRecordingCommand && !this.holdRecording) {
       this.finishRecording();
     }
   }
 
   private finishRecording(): void {
     this.isRecordingCommand = false;
-    this.silenceStartTime = null;
+    this.holdRecording = false;
 
     // Play "done" sound
     if (this.config.playSound) {
@@ -298,16 +534,16 @@ export class SherpaOnnxDetector extends EventEmitter {
 
     const audioBuffer = Buffer.concat(this.audioBuffer);
     this.audioBuffer = [];
-    this.emit('command', audioBuffer);
+    this.emit('command', audioBuffer, this.activeKeyword);
   }
 
   stop(): void {
     this.isListening = false;
     this.isRecordingCommand = false;
 
-    if (this.recordingProcess) {
-      this.recordingProcess.kill();
-      this.recordingProcess = null;
+    if (this.source) {
+      this.source.removeAllListeners();
+      this.source.stop();
     }
 
     this.emit('stopped');
@@ -315,7 +551,10 @@ export class SherpaOnnxDetector extends EventEmitter {
 
   cleanup(): void {
     this.stop();
+    this.freeSpotter();
+  }
 
+  private freeSpotter(): void {
     if (this.stream) {
       try {
         this.stream.free();
@@ -325,6 +564,11 @@ export class SherpaOnnxDetector extends EventEmitter {
       this.stream = null;
     }
 
+    if (this.endpointer) {
+      this.endpointer.free();
+      this.endpointer = null;
+    }
+
     if (this.kws) {
       try {
         this.kws.free();
@@ -0,0 +1,305 @@
+/**
+ * Build keyword spotter token sequences for arbitrary phrases
+ *
+ * The KWS model only understands phrases written as its BPE tokens
+ * (e.g. "▁JA R VI S"). This turns plain text into valid token sequences
+ * using the model's tokens.txt, and its bpe.model scores when available.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// SentencePiece word boundary marker
+const WORD_START = '▁';
+
+// Cap on segmentations explored per word
+const MAX_SEGMENTATIONS = 200;
+
+export interface KeywordVocabulary {
+  tokens: Set<string>;
+  // Merge priorities from bpe.model (null if the model file is missing)
+  scores: Map<string, number> | null;
+}
+
+/**
+ * Load the token vocabulary of a KWS model directory
+ */
+export function loadKeywordVocabulary(modelPath: string): KeywordVocabulary {
+  const tokensFile = path.join(modelPath, 'tokens.txt');
+  if (!fs.existsSync(tokensFile)) {
+    throw new Error(`tokens.txt not found in ${modelPath}`);
+  }
+
+  const tokens = new Set<string>();
+  for (const line of fs.readFileSync(tokensFile, 'utf-8').split('\n')) {
+    const token = line.trim().split(/\s+/)[0];
+    if (token && !token.startsWith('<')) {
+      tokens.add(token);
+    }
+  }
+
+  const bpeFile = path.join(modelPath, 'bpe.model');
+  const scores = fs.existsSync(bpeFile) ? readSentencePieceScores(fs.readFileSync(bpeFile)) : null;
+
+  return { tokens, scores };
+}
+
+/**
+ * Normalize a phrase the way the KWS model's training text was written
+ */
+export function normalizePhrase(phrase: string): string[] {
+  return phrase
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Build token sequence variants for a phrase, best first
+ * @param phrase - Plain text phrase, e.g. "hey computer"
+ * @param vocab - Vocabulary of the installed KWS model
+ * @param maxVariants - Maximum number of variants to return
+ * @throws if the phrase contains characters the model has no tokens for
+ */
+export function buildKeywordVariants(phrase: string, vocab: KeywordVocabulary, maxVariants = 6): string[] {
+  const words = normalizePhrase(phrase);
+  if (words.length === 0) {
+    throw new Error('Phrase is empty');
+  }
+
+  const unknown = new Set<string>();
+  for (const word of words) {
+    for (const char of word) {
+      if (!vocab.tokens.has(char) && !vocab.tokens.has(WORD_START + char)) {
+        unknown.add(char);
+      }
+    }
+  }
+  if (unknown.size > 0) {
+    throw new Error(`The keyword model has no tokens for: ${[...unknown].join(' ')}`);
+  }
+
+  // Per word: canonical encoding first, then alternatives with few tokens
+  const perWord = words.map((word) => {
+    const canonical = encodeWord(word, vocab);
+    const alternatives = segmentWord(word, vocab, true).filter((s) => !sameTokens(s, canonical));
+    return [canonical, ...alternatives];
+  });
+
+  const canonical = perWord.map((segs) => segs[0]);
+  const variants: string[][][] = [canonical];
+
+  // Vary one word at a time
+  for (let i = 0; i < perWord.length; i++) {
+    for (const alternative of perWord[i].slice(1, 3)) {
+      variants.push(canonical.map((seg, j) => (j === i ? alternative : seg)));
+    }
+  }
+
+  // Without the leading word marker (the spotter often decodes it that way)
+  const firstPlain = segmentWord(words[0], vocab, false)[0];
+  if (firstPlain) {
+    variants.push([firstPlain, ...canonical.slice(1)]);
+  }
+
+  // Spelled out letter by letter
+  const spelled = words.map((word) => spellWord(word, vocab));
+  if (spelled.every((s): s is string[] => s !== null)) {
+    variants.push(spelled);
+  }
+
+  const lines: string[] = [];
+  for (const variant of variants) {
+    const line = variant.map((seg) => seg.join(' ')).join(' ');
+    if (!lines.includes(line)) {
+      lines.push(line);
+    }
+  }
+
+  return lines.slice(0, maxVariants);
+}
+
+/**
+ * Encode a word the way SentencePiece BPE would: start from characters,
+ * repeatedly merge the adjacent pair with the highest score
+ */
+function encodeWord(word: string, vocab: KeywordVocabulary): string[] {
+  if (!vocab.scores) {
+    return firstSegmentation(word, vocab);
+  }
+
+  const scores = vocab.scores;
+  const symbols = [WORD_START, ...word];
+
+  for (;;) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < symbols.length - 1; i++) {
+      const score = scores.get(symbols[i] + symbols[i + 1]);
+      if (score !== undefined && vocab.tokens.has(symbols[i] + symbols[i + 1]) && score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    if (best === -1) break;
+    symbols.splice(best, 2, symbols[best] + symbols[best + 1]);
+  }
+
+  // A bare word marker that could not be merged is dropped or kept as its own token
+  if (symbols[0] === WORD_START && !vocab.tokens.has(WORD_START)) {
+    symbols.shift();
+  }
+
+  return symbols.every((s) => vocab.tokens.has(s)) ? symbols : firstSegmentation(word, vocab);
+}
+
+/**
+ * Segmentation of a word with the fewest tokens, starting with a word start token
+ * @throws if the model has no such segmentation (e.g. no "▁" token for the first letter)
+ */
+function firstSegmentation(word: string, vocab: KeywordVocabulary): string[] {
+  const [first] = segmentWord(word, vocab, true);
+  if (!first) {
+    throw new Error(`The keyword model cannot start a word with the tokens of "${word}"`);
+  }
+  return first;
+}
+
+/**
+ * Enumerate segmentations of a word into known tokens, fewest tokens first
+ * @param markStart - Whether the first token carries the word start marker
+ */
+function segmentWord(word: string, vocab: KeywordVocabulary, markStart: boolean): string[][] {
+  const chars = [...word];
+  const results: string[][] = [];
+
+  const walk = (pos: number, current: string[]): void => {
+    if (results.length >= MAX_SEGMENTATIONS) return;
+    if (pos === chars.length) {
+      results.push([...current]);
+      return;
+    }
+
+    // Longer pieces first so short segmentations are found early
+    for (let end = chars.length; end > pos; end--) {
+      const piece = chars.slice(pos, end).join('');
+      const token = pos === 0 && markStart ? WORD_START + piece : piece;
+      if (vocab.tokens.has(token)) {
+        current.push(token);
+        walk(end, current);
+        current.pop();
+      }
+    }
+  };
+
+  walk(0, []);
+  return results.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Spell a word as single-character tokens, or null if not possible
+ */
+function spellWord(word: string, vocab: KeywordVocabulary): string[] | null {
+  const chars = [...word];
+  const first = vocab.tokens.has(WORD_START + chars[0]) ? WORD_START + chars[0] : chars[0];
+  const tokens = [first, ...chars.slice(1)];
+  return tokens.every((t) => vocab.tokens.has(t)) ? tokens : null;
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((t, i) => t === b[i]);
+}
+
+/**
+ * Read piece scores from a SentencePiece model (protobuf ModelProto)
+ *
+ * Only the fields needed here are decoded:
+ *   ModelProto.pieces = 1 (repeated SentencePiece)
+ *   SentencePiece.piece = 1 (string), SentencePiece.score = 2 (float)
+ */
+function readSentencePieceScores(buffer: Buffer): Map<string, number> {
+  const scores = new Map<string, number>();
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const [tag, tagEnd] = readVarint(buffer, offset);
+    offset = tagEnd;
+    const field = tag >>> 3;
+    const wireType = tag & 7;
+
+    if (field === 1 && wireType === 2) {
+      const [length, start] = readVarint(buffer, offset);
+      const piece = readPiece(buffer.subarray(start, start + length));
+      if (piece) {
+        scores.set(piece.piece, piece.score);
+      }
+      offset = start + length;
+    } else {
+      offset = skipField(buffer, offset, wireType);
+    }
+  }
+
+  return scores;
+}
+
+function readPiece(buffer: Buffer): { piece: string; score: number } | null {
+  let piece: string | null = null;
+  let score = 0;
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const [tag, tagEnd] = readVarint(buffer, offset);
+    offset = tagEnd;
+    const field = tag >>> 3;
+    const wireType = tag & 7;
+
+    if (field === 1 && wireType === 2) {
+      const [length, start] = readVarint(buffer, offset);
+      piece = buffer.toString('utf-8', start, start + length);
+      offset = start + length;
+    } else if (field === 2 && wireType === 5) {
+      score = buffer.readFloatLE(offset);
+      offset += 4;
+    } else {
+      offset = skipField(buffer, offset, wireType);
+    }
+  }
+
+  return piece === null ? null : { piece, score };
+}
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let result = 0;
+  let shift = 0;
+
+  while (offset < buffer.length) {
+    const byte = buffer[offset++];
+    result += (byte & 0x7f) * Math.pow(2, shift);
+    if ((byte & 0x80) === 0) {
+      return [result, offset];
+    }
+    shift += 7;
+  }
+
+  throw new Error('Truncated bpe.model');
+}
+
+function skipField(buffer: Buffer, offset: number, wireType: number): number {
+  switch (wireType) {
+    case 0:
+      return readVarint(buffer, offset)[1];
+    case 1:
+      return offset + 8;
+    case 2: {
+      const [length, start] = readVarint(buffer, offset);
+      return start + length;
+    }
+    case 5:
+      return offset + 4;
+    default:
+      throw new Error(`Unsupported protobuf wire type ${wireType} in bpe.model`);
+  }
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeCalibration, frameAmplitudes } from '../src/calibration';
+
+const noise = [100, 100, 100, 100, 100, 100, 100, 100, 100, 5000];
+
+function repeat(value: number, count: number): number[] {
+  return new Array<number>(count).fill(value);
+}
+
+test('computeCalibration sets the line a quarter of the way from noise to speech', () => {
+  const speech = [1600, 1600, 100, 100, 100, 100, 100, 1600, 1600];
+
+  const result = computeCalibration(noise, speech);
+
+  assert.equal(result.noiseFloor, 100);
+  assert.equal(result.speechLevel, 1600);
+  assert.equal(result.ratio, 16);
+  assert.equal(result.silenceAmplitude, 200);
+  assert.equal(result.silenceThreshold, 1200);
+  assert.equal(result.reliable, true);
+});
+
+test('computeCalibration keeps the silence threshold within bounds', () => {
+  const noPause = computeCalibration(noise, repeat(1600, 10));
+  const longPause = computeCalibration(noise, [1600, ...repeat(100, 40), 1600]);
+
+  assert.equal(noPause.silenceThreshold, 1000);
+  assert.equal(longPause.silenceThreshold, 4000);
+});
+
+test('computeCalibration ignores silence before and after the speech', () => {
+  const speech = [...repeat(100, 20), 1600, ...repeat(100, 4), 1600, ...repeat(100, 20)];
+
+  assert.equal(computeCalibration(noise, speech).silenceThreshold, 1100);
+});
+
+test('computeCalibration never recommends an amplitude below the minimum', () => {
+  const result = computeCalibration(repeat(0, 10), repeat(1600, 10));
+
+  assert.equal(result.ratio, Infinity);
+  assert.equal(result.silenceAmplitude, 50);
+});
+
+test('computeCalibration is unreliable when speech is not clearly louder than the noise', () => {
+  const close = computeCalibration(repeat(1000, 10), repeat(1500, 10));
+  const quieter = computeCalibration(repeat(1000, 10), repeat(800, 10));
+
+  assert.equal(close.reliable, false);
+  assert.equal(quieter.speechLevel, 800);
+  assert.equal(quieter.reliable, false);
+});
+
+test('computeCalibration needs both samples', () => {
+  assert.throws(() => computeCalibration([], [1600]), /Not enough audio to calibrate/);
+  assert.throws(() => computeCalibration(noise, []), /Not enough audio to calibrate/);
+});
+
+test('frameAmplitudes measures whole 100 ms frames and drops the rest', () => {
+  const pcm = Buffer.alloc(1650 * 2);
+  for (let i = 0; i < 1650; i++) {
+    pcm.writeInt16LE(i < 800 ? 300 : -600, i * 2);
+  }
+
+  assert.deepEqual(frameAmplitudes(pcm, 8000), [300, 600]);
+});
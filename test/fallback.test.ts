@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FallbackChain, FallbackOptions, formatEngineStatus } from '../src/stt/fallback';
+import { STTInitError } from '../src/stt/errors';
+import { RecognitionResult, STTCapabilities, STTProvider } from '../src/stt/provider';
+
+/**
+ * Provider whose initialize() and transcribe() behave as a test needs
+ */
+class FakeProvider implements STTProvider {
+  readonly name = 'fake';
+  readonly capabilities: STTCapabilities = { languages: [], translate: false, languageDetection: false, local: true };
+  calls = 0;
+  private ready = false;
+
+  constructor(
+    readonly model: string,
+    private behavior: { init?: () => Promise<void>; transcribe?: () => Promise<RecognitionResult> } = {}
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.behavior.init?.();
+    this.ready = true;
+  }
+
+  async transcribe(): Promise<RecognitionResult> {
+    this.calls++;
+    if (this.behavior.transcribe) {
+      return this.behavior.transcribe();
+    }
+    return { text: `from ${this.model}`, language: 'en', task: 'transcribe' };
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  dispose(): void {
+    this.ready = false;
+  }
+}
+
+const options: FallbackOptions = { timeout: 0, circuitBreaker: { failures: 2, cooldown: 60 } };
+const samples = new Float32Array(160);
+
+function chain(providers: FakeProvider[], overrides: Partial<FallbackOptions> = {}): FallbackChain {
+  return new FallbackChain(
+    providers.map((provider) => ({ label: provider.model, provider })),
+    { ...options, ...overrides }
+  );
+}
+
+const fail = (message: string) => () => Promise.reject(new Error(message));
+
+test('initialize starts only the first engine when it comes up', async () => {
+  const fallbacks = chain([new FakeProvider('primary'), new FakeProvider('backup')]);
+
+  assert.equal(await fallbacks.initialize(), true);
+  assert.deepEqual(fallbacks.getStatus().map((e) => e.state), ['ready', 'idle']);
+});
+
+test('initialize moves on to a fallback and records why the first engine failed', async () => {
+  const missing = () => Promise.reject(new STTInitError('model-missing', 'Model not installed', 'Run: download'));
+  const fallbacks = chain([new FakeProvider('primary', { init: missing }), new FakeProvider('backup')]);
+
+  assert.equal(await fallbacks.initialize(), true);
+  const [primary, backup] = fallbacks.getStatus();
+  assert.equal(primary.state, 'failed');
+  assert.deepEqual(primary.error, { code: 'model-missing', message: 'Model not installed', hint: 'Run: download' });
+  assert.equal(backup.state, 'ready');
+  assert.equal(fallbacks.active.model, 'backup');
+  assert.deepEqual(formatEngineStatus(primary), ['primary (fake): failed - Model not installed', '  Run: download']);
+});
+
+test('initialize reports when no engine comes up', async () => {
+  const fallbacks = chain([new FakeProvider('primary', { init: fail('broken') })]);
+
+  assert.equal(await fallbacks.initialize(), false);
+  assert.equal(fallbacks.isReady(), false);
+});
+
+test('transcribe falls back when an engine throws', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const primary = new FakeProvider('primary', { transcribe: fail('server down') });
+  const fallbacks = chain([primary, new FakeProvider('backup')]);
+
+  const { result, label, fallback } = await fallbacks.transcribe(samples, 16000);
+
+  assert.equal(result.text, 'from backup');
+  assert.equal(label, 'backup');
+  assert.deepEqual(fallback, { from: 'primary', reason: 'primary: server down' });
+});
+
+test('transcribe falls back when an engine times out', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const hang = () => new Promise<RecognitionResult>(() => {});
+  const fallbacks = chain([new FakeProvider('primary', { transcribe: hang }), new FakeProvider('backup')], {
+    timeout: 0.05,
+  });
+
+  const { result, fallback } = await fallbacks.transcribe(samples, 16000);
+
+  assert.equal(result.text, 'from backup');
+  assert.equal(fallback?.reason, 'primary: timed out after 0.05s');
+});
+
+test('transcribe skips an engine that keeps failing until the cooldown ends', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const primary = new FakeProvider('primary', { transcribe: fail('server down') });
+  const fallbacks = chain([primary, new FakeProvider('backup')]);
+
+  await fallbacks.transcribe(samples, 16000);
+  await fallbacks.transcribe(samples, 16000);
+  assert.equal(fallbacks.getStatus()[0].state, 'skipped');
+
+  const { fallback } = await fallbacks.transcribe(samples, 16000);
+  assert.equal(primary.calls, 2);
+  assert.deepEqual(fallback, { from: 'primary', reason: 'skipped' });
+});
+
+test('transcribe passes on the error of a single engine', async () => {
+  const fallbacks = chain([new FakeProvider('primary', { transcribe: fail('server down') })]);
+
+  await assert.rejects(fallbacks.transcribe(samples, 16000), /^Error: server down$/);
+});
+
+test('transcribe reports every engine when all of them fail', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const fallbacks = chain([
+    new FakeProvider('primary', { transcribe: fail('server down') }),
+    new FakeProvider('backup', { transcribe: fail('out of memory') }),
+  ]);
+
+  await assert.rejects(
+    fallbacks.transcribe(samples, 16000),
+    /All STT engines failed \(primary: server down; backup: out of memory\)/
+  );
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { collapseRepetition, filterTranscript } from '../src/filter';
+
+const defaults = getDefaultConfig();
+const config = defaults.filter;
+const context = { silenceAmplitude: 500, hallucinations: defaults.stt.hallucinations };
+
+function filter(text: string): string {
+  return filterTranscript(text, config, context).text;
+}
+
+test('filterTranscript drops non-speech tags', () => {
+  assert.equal(filter('[BLANK_AUDIO]'), '');
+  assert.equal(filter('(upbeat music) Fix it [MUSIC PLAYING]'), 'Fix it');
+  assert.equal(filter('(laughs) okay ♪ la la ♪'), 'okay');
+});
+
+test('filterTranscript keeps brackets that are part of what was said', () => {
+  assert.equal(filter('Look at (the one in utils) please'), 'Look at (the one in utils) please');
+  assert.equal(filter('Set arr[i] to zero'), 'Set arr[i] to zero');
+  assert.equal(filter('Call foo(music)'), 'Call foo(music)');
+});
+
+test('filterTranscript drops a transcript that is a hallucination', () => {
+  const result = filterTranscript('Thank you.', config, context);
+
+  assert.equal(result.text, '');
+  assert.deepEqual(result.dropped, ['"thank you" (hallucination)']);
+});
+
+test('filterTranscript strips hallucinations appended to speech', () => {
+  assert.equal(filter('Fix it. Thanks for watching. Subtitles by the Amara.org community.'), 'Fix it.');
+});
+
+test('filterTranscript keeps a hallucination phrase in the middle of speech', () => {
+  const text = 'Run the tests, thanks for watching the logs carefully.';
+
+  assert.equal(filter(text), text);
+});
+
+test('filterTranscript drops audio without speech', () => {
+  const silence = Buffer.alloc(16000 * 2);
+  const result = filterTranscript('Thank you for the help.', config, { ...context, audio: silence, sampleRate: 16000 });
+
+  assert.equal(result.text, '');
+  assert.match(result.dropped[0], /no speech in audio: 0 ms/);
+});
+
+test('filterTranscript does nothing when disabled', () => {
+  const text = '[Music] Thank you.';
+
+  assert.equal(filterTranscript(text, { ...config, enabled: false }, context).text, text);
+});
+
+test('collapseRepetition keeps one copy of a loop', () => {
+  assert.equal(collapseRepetition('you you you you you', 4), 'you');
+  assert.equal(collapseRepetition('Fix it. Fix it. Fix it. Fix it. Done', 4), 'Fix it. Done');
+});
+
+test('collapseRepetition leaves shorter repeats alone', () => {
+  assert.equal(collapseRepetition('very very very good', 4), 'very very very good');
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { createFormattingPipeline, formatTranscript } from '../src/formatting';
+
+const config = { ...getDefaultConfig().formatting, enabled: true };
+const english = createFormattingPipeline(config, 'en');
+
+test('formatting is off by default', () => {
+  // "Add a dash to the name" would otherwise be typed as "Add a -to the name"
+  assert.equal(getDefaultConfig().formatting.enabled, false);
+});
+
+test('formatTranscript turns spoken symbols into code', () => {
+  assert.equal(formatTranscript('src slash utils dot ts', english), 'src/utils.ts');
+  assert.equal(formatTranscript('git commit dash dash amend', english), 'git commit --amend');
+  assert.equal(formatTranscript('call open paren x close paren', english), 'call (x)');
+});
+
+test('formatTranscript applies spoken identifier cases', () => {
+  assert.equal(formatTranscript('camel case user name', english), 'userName');
+  assert.equal(formatTranscript('set snake case max retries', english), 'set max_retries');
+});
+
+test('formatTranscript ends an identifier in the middle of a sentence', () => {
+  assert.equal(
+    formatTranscript('rename camel case user id end case to account id in the handler', english),
+    'rename userId to account id in the handler'
+  );
+  assert.equal(formatTranscript('set snake case max retries, then rerun', english), 'set max_retries, then rerun');
+  assert.equal(formatTranscript('call pascal case user service end case.', english), 'call UserService.');
+});
+
+test('formatTranscript caps an identifier without an end at four words', () => {
+  assert.equal(
+    formatTranscript('rename camel case user id to account id in the handler', english),
+    'rename userIdToAccount id in the handler'
+  );
+});
+
+test('formatTranscript leaves line breaks for the newline key', () => {
+  assert.equal(formatTranscript('first line new line second line', english), 'first line\nsecond line');
+});
+
+test('formatTranscript is a no-op with an empty pipeline', () => {
+  const text = 'Add a dash to the name and a dot at the end.';
+
+  assert.equal(formatTranscript(text, []), text);
+});
+
+test('formatting.symbols adds and removes spoken forms', () => {
+  const custom = createFormattingPipeline({ ...config, symbols: { en: { walrus: ':=', dash: null } } }, 'en');
+
+  assert.equal(formatTranscript('x walrus y dash z', custom), 'x := y dash z');
+});
@@ -0,0 +1,70 @@
+import { test, TestContext } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pruneAudio } from '../src/history';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+const now = Date.parse('2026-06-01T12:00:00Z');
+
+/**
+ * Audio directory with one file per entry, given its size and age in days
+ */
+function audioDir(t: TestContext, files: Record<string, [number, number]>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  for (const [name, [size, age]] of Object.entries(files)) {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, Buffer.alloc(size));
+    fs.utimesSync(file, new Date(now - age * DAY), new Date(now - age * DAY));
+  }
+
+  return dir;
+}
+
+test('pruneAudio deletes files older than maxAgeDays', (t) => {
+  const dir = audioDir(t, { '1.wav': [100, 40], '2.wav': [200, 31], '3.wav': [300, 2] });
+
+  const result = pruneAudio({ maxAgeDays: 30, maxSizeMB: 0 }, now, dir);
+
+  assert.deepEqual(result, { removed: 2, freedBytes: 300, remaining: 1, remainingBytes: 300 });
+  assert.deepEqual(fs.readdirSync(dir), ['3.wav']);
+});
+
+test('pruneAudio deletes the oldest files until the total fits maxSizeMB', (t) => {
+  const dir = audioDir(t, { '1.wav': [MB, 3], '2.wav': [MB, 2], '3.wav': [MB, 1] });
+
+  const result = pruneAudio({ maxAgeDays: 0, maxSizeMB: 2 }, now, dir);
+
+  assert.deepEqual(result, { removed: 1, freedBytes: MB, remaining: 2, remainingBytes: 2 * MB });
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['2.wav', '3.wav']);
+});
+
+test('pruneAudio keeps everything when both limits are disabled', (t) => {
+  const dir = audioDir(t, { '1.wav': [MB, 400], '2.wav': [MB, 1] });
+
+  const result = pruneAudio({ maxAgeDays: 0, maxSizeMB: 0 }, now, dir);
+
+  assert.deepEqual(result, { removed: 0, freedBytes: 0, remaining: 2, remainingBytes: 2 * MB });
+});
+
+test('pruneAudio only touches WAV files', (t) => {
+  const dir = audioDir(t, { '1.wav': [100, 40], 'notes.txt': [100, 40] });
+
+  assert.equal(pruneAudio({ maxAgeDays: 30, maxSizeMB: 0 }, now, dir).removed, 1);
+  assert.deepEqual(fs.readdirSync(dir), ['notes.txt']);
+});
+
+test('pruneAudio reports nothing when the audio directory does not exist', () => {
+  const dir = path.join(os.tmpdir(), 'audio-missing', String(process.pid));
+
+  assert.deepEqual(pruneAudio({ maxAgeDays: 30, maxSizeMB: 100 }, now, dir), {
+    removed: 0,
+    freedBytes: 0,
+    remaining: 0,
+    remainingBytes: 0,
+  });
+});
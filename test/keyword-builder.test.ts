@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  KeywordVocabulary,
+  buildKeywordVariants,
+  loadKeywordVocabulary,
+  normalizePhrase,
+} from '../src/wake-word/keyword-builder';
+
+const vocab: KeywordVocabulary = {
+  tokens: new Set(['▁HE', 'HE', 'Y', '▁H', 'E', '▁JA', 'JA', '▁J', 'A', 'R', 'VI', 'V', 'I', 'S']),
+  scores: null,
+};
+
+/**
+ * bpe.model with the given piece scores (ModelProto.pieces: piece = 1, score = 2)
+ */
+function bpeModel(scores: Record<string, number>): Buffer {
+  return Buffer.concat(
+    Object.entries(scores).map(([piece, score]) => {
+      const text = Buffer.from(piece, 'utf-8');
+      const value = Buffer.alloc(4);
+      value.writeFloatLE(score, 0);
+      const body = Buffer.concat([Buffer.from([0x0a, text.length]), text, Buffer.from([0x15]), value]);
+      return Buffer.concat([Buffer.from([0x0a, body.length]), body]);
+    })
+  );
+}
+
+test('normalizePhrase uppercases and drops punctuation', () => {
+  assert.deepEqual(normalizePhrase('Hey, Jarvis!'), ['HEY', 'JARVIS']);
+  assert.deepEqual(normalizePhrase("  it's  "), ["IT'S"]);
+});
+
+test('buildKeywordVariants puts the segmentation with the fewest tokens first', () => {
+  const [canonical] = buildKeywordVariants('hey jarvis', vocab);
+
+  assert.equal(canonical, '▁HE Y ▁JA R VI S');
+});
+
+test('buildKeywordVariants adds alternatives, an unmarked first word and a spelled form', () => {
+  const variants = buildKeywordVariants('hey jarvis', vocab, 10);
+
+  assert.ok(variants.includes('▁H E Y ▁JA R VI S'));
+  assert.ok(variants.includes('HE Y ▁JA R VI S'));
+  assert.ok(variants.includes('▁H E Y ▁J A R V I S'));
+  assert.equal(new Set(variants).size, variants.length);
+});
+
+test('buildKeywordVariants honors maxVariants', () => {
+  assert.equal(buildKeywordVariants('hey jarvis', vocab, 2).length, 2);
+});
+
+test('buildKeywordVariants merges by bpe.model scores when they are known', () => {
+  const scored = { ...vocab, scores: new Map([['▁J', 5], ['▁JA', 4], ['VI', 3]]) };
+
+  assert.equal(buildKeywordVariants('jarvis', scored, 1)[0], '▁JA R VI S');
+});
+
+test('buildKeywordVariants rejects characters the model has no tokens for', () => {
+  assert.throws(() => buildKeywordVariants('hey zed', vocab), /no tokens for: Z D/);
+  assert.throws(() => buildKeywordVariants('!!', vocab), /Phrase is empty/);
+});
+
+test('buildKeywordVariants rejects a word without a word start token for its first letter', () => {
+  assert.throws(() => buildKeywordVariants('yes', vocab), /cannot start a word with the tokens of "YES"/);
+});
+
+test('loadKeywordVocabulary reads tokens.txt and bpe.model scores', (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kws-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  fs.writeFileSync(path.join(dir, 'tokens.txt'), '<blk> 0\n▁JA 1\nR 2\n');
+  fs.writeFileSync(path.join(dir, 'bpe.model'), bpeModel({ '▁JA': -1.5, R: -2 }));
+
+  const loaded = loadKeywordVocabulary(dir);
+
+  assert.deepEqual([...loaded.tokens], ['▁JA', 'R']);
+  assert.deepEqual([...loaded.scores!], [['▁JA', -1.5], ['R', -2]]);
+});
+
+test('loadKeywordVocabulary needs tokens.txt', (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kws-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  assert.throws(() => loadKeywordVocabulary(dir), /tokens.txt not found/);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { assessTranscript, hasRepetitionLoop, matchHallucination } from '../src/stt/quality';
+
+const stt = getDefaultConfig().stt;
+const options = { ...stt.escalation, hallucinations: stt.hallucinations };
+
+test('assessTranscript accepts an ordinary command', () => {
+  assert.deepEqual(assessTranscript('Run the tests and fix the failing ones.', 3, options), {
+    reliable: true,
+    reasons: [],
+  });
+});
+
+test('assessTranscript flags an empty transcript', () => {
+  assert.deepEqual(assessTranscript('  ', 2, options), { reliable: false, reasons: ['empty'] });
+});
+
+test('assessTranscript flags a repetition loop', () => {
+  const assessment = assessTranscript("I'm sorry. I'm sorry. I'm sorry. I'm sorry.", 3, options);
+
+  assert.deepEqual(assessment.reasons, ['repetition']);
+});
+
+test('assessTranscript flags too little text for the speech', () => {
+  assert.deepEqual(assessTranscript('Okay.', 10, options).reasons, ['too short']);
+});
+
+test('assessTranscript flags a known hallucination', () => {
+  assert.deepEqual(assessTranscript('Thank you.', 1, options).reasons, ['hallucination']);
+  assert.deepEqual(assessTranscript('Fix it. Thanks for watching!', 1, options).reasons, ['hallucination']);
+});
+
+test('matchHallucination ignores a phrase inside real speech', () => {
+  assert.equal(matchHallucination('Run the tests, thanks for watching the logs carefully.', stt.hallucinations), null);
+});
+
+test('matchHallucination matches short phrases only as the whole transcript', () => {
+  assert.equal(matchHallucination('Thank you.', stt.hallucinations), 'thank you');
+  assert.equal(matchHallucination('Say thank you', stt.hallucinations), null);
+});
+
+test('hasRepetitionLoop counts back-to-back repeats only', () => {
+  assert.equal(hasRepetitionLoop('test test test test', 4), true);
+  assert.equal(hasRepetitionLoop('test one test two test three test', 4), false);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SHERPA_MODELS, SherpaModelInfo, buildModelConfig } from '../src/stt/providers/sherpa-onnx';
+
+const file = (role: string) => `/models/${role}.onnx`;
+
+test('buildModelConfig passes the language and task to Whisper', () => {
+  assert.deepEqual(buildModelConfig(SHERPA_MODELS['whisper-tiny'], file, 'de', 'translate'), {
+    whisper: { encoder: '/models/encoder.onnx', decoder: '/models/decoder.onnx', language: 'de', task: 'translate' },
+  });
+});
+
+test('buildModelConfig lets SenseVoice detect a language it does not support', () => {
+  const info = SHERPA_MODELS['sense-voice'];
+
+  assert.deepEqual(buildModelConfig(info, file, 'ja', 'transcribe'), {
+    senseVoice: { model: '/models/model.onnx', language: 'ja', useInverseTextNormalization: 1 },
+  });
+  assert.equal(
+    (buildModelConfig(info, file, 'de', 'transcribe').senseVoice as { language: string }).language,
+    'auto'
+  );
+});
+
+test('buildModelConfig marks NeMo transducers with their model type', () => {
+  const transducer = { encoder: '/models/encoder.onnx', decoder: '/models/decoder.onnx', joiner: '/models/joiner.onnx' };
+
+  assert.deepEqual(buildModelConfig(SHERPA_MODELS['parakeet-tdt-0.6b-v2'], file, 'en', 'transcribe'), {
+    transducer,
+    modelType: 'nemo_transducer',
+  });
+  assert.deepEqual(buildModelConfig(SHERPA_MODELS['zipformer-gigaspeech-en'], file, 'en', 'transcribe'), {
+    transducer,
+  });
+});
+
+test('buildModelConfig maps the files of the other families', () => {
+  assert.deepEqual(buildModelConfig(SHERPA_MODELS['moonshine-tiny-en'], file, 'en', 'transcribe'), {
+    moonshine: {
+      preprocessor: '/models/preprocessor.onnx',
+      encoder: '/models/encoder.onnx',
+      uncachedDecoder: '/models/uncachedDecoder.onnx',
+      cachedDecoder: '/models/cachedDecoder.onnx',
+    },
+  });
+  assert.deepEqual(buildModelConfig(SHERPA_MODELS['paraformer-zh'], file, 'zh', 'transcribe'), {
+    paraformer: { model: '/models/model.onnx' },
+  });
+});
+
+test('buildModelConfig rejects an unknown family', () => {
+  const info = { ...SHERPA_MODELS['whisper-tiny'], family: 'wav2vec' } as unknown as SherpaModelInfo;
+
+  assert.throws(() => buildModelConfig(info, file, 'en', 'transcribe'), /Unknown model family: wav2vec/);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { matchTaskModifier, stripTaskModifier } from '../src/stt/task';
+
+const modifiers = getDefaultConfig().stt.taskModifiers;
+
+test('matchTaskModifier matches a leading clause in non-English speech', () => {
+  assert.deepEqual(matchTaskModifier('Auf Englisch, führe die Tests aus.', modifiers, 'de'), {
+    phrase: 'auf englisch',
+    task: 'translate',
+    rest: 'führe die Tests aus.',
+  });
+});
+
+test('matchTaskModifier ignores accents and case', () => {
+  assert.equal(matchTaskModifier('İngilizce: testleri çalıştır', modifiers, 'tr')?.phrase, 'ingilizce');
+});
+
+test('matchTaskModifier accepts a modifier spoken on its own', () => {
+  assert.equal(matchTaskModifier('Auf Englisch.', modifiers, 'de')?.rest, '');
+});
+
+test('matchTaskModifier leaves English sentences alone', () => {
+  assert.equal(matchTaskModifier('Verbatim quotes are needed here.', modifiers, 'en'), null);
+  assert.equal(matchTaskModifier('In English, the word is spelled differently.', modifiers, 'en'), null);
+});
+
+test('matchTaskModifier needs the phrase to end a clause', () => {
+  assert.equal(matchTaskModifier('In English the word is spelled differently.', modifiers, 'de'), null);
+  assert.equal(matchTaskModifier('Auf Englisch klingt das anders.', modifiers, 'de'), null);
+});
+
+test('matchTaskModifier skips disabled phrases', () => {
+  assert.equal(matchTaskModifier('Auf Englisch, mach das.', { ...modifiers, 'auf englisch': null }, 'de'), null);
+});
+
+test('stripTaskModifier removes the modifier from a translated second pass', () => {
+  assert.equal(stripTaskModifier('In English, run the tests.', modifiers), 'run the tests.');
+  assert.equal(stripTaskModifier('Run the tests.', modifiers), 'Run the tests.');
+});
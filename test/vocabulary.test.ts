@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { Vocabulary, applyVocabulary, getHotwords, phoneticKey, similarity } from '../src/vocabulary';
+
+const config = getDefaultConfig().vocabulary;
+const vocabulary: Vocabulary = {
+  terms: [
+    { term: 'kubectl', soundsLike: ['cube control'] },
+    { term: 'Terraform' },
+    { term: 'pnpm', soundsLike: ['p n p m'] },
+    { term: 'Postgres' },
+    { term: 'nginx', soundsLike: ['engine x'] },
+    { term: 'Redis' },
+    { term: 'Kubernetes' },
+    { term: 'Vite' },
+  ],
+};
+
+function apply(text: string): string {
+  return applyVocabulary(text, vocabulary, config);
+}
+
+test('applyVocabulary replaces sounds-like forms and keeps the punctuation around them', () => {
+  assert.equal(apply('Run cube control get pods.'), 'Run kubectl get pods.');
+  assert.equal(apply('Is engine x up?'), 'Is nginx up?');
+});
+
+test('applyVocabulary joins a term the model split into words', () => {
+  assert.equal(apply('apply the terra form plan'), 'apply the Terraform plan');
+  assert.equal(apply('install with P.N.P.M.'), 'install with pnpm');
+});
+
+test('applyVocabulary fixes near misses', () => {
+  assert.equal(apply('run cubectl apply'), 'run kubectl apply');
+  assert.equal(apply('post gress is down'), 'Postgres is down');
+  assert.equal(apply('flush the reddis cache'), 'flush the Redis cache');
+  assert.equal(apply('kuber nettis cluster'), 'Kubernetes cluster');
+});
+
+test('applyVocabulary leaves ordinary words near a term alone', () => {
+  const sentences = [
+    'the engine is slow',
+    'red is my favorite color',
+    'is it ready is it',
+    'the platform is ready',
+    'transform the data',
+    'posters on the wall',
+    'the cube is red',
+    'a quick bite',
+  ];
+
+  for (const sentence of sentences) {
+    assert.equal(apply(sentence), sentence);
+  }
+});
+
+test('applyVocabulary only replaces exact matches without fuzzy', () => {
+  const exact = { ...config, fuzzy: false };
+
+  assert.equal(applyVocabulary('run cubectl apply', vocabulary, exact), 'run cubectl apply');
+  assert.equal(applyVocabulary('run cube control apply', vocabulary, exact), 'run kubectl apply');
+});
+
+test('applyVocabulary replaces short terms on an exact match only', () => {
+  assert.equal(apply('build with vite'), 'build with Vite');
+  assert.equal(apply('build with vit'), 'build with vit');
+});
+
+test('phoneticKey maps similar spellings to the same key', () => {
+  assert.equal(phoneticKey('cubectl'), phoneticKey('kubectl'));
+  assert.equal(phoneticKey('fone'), phoneticKey('phone'));
+  assert.notEqual(phoneticKey('engine'), phoneticKey('nginx'));
+});
+
+test('similarity is the normalized edit distance', () => {
+  assert.equal(similarity('redis', 'redis'), 1);
+  assert.equal(similarity('redis', ''), 0);
+  assert.equal(similarity('cubectl', 'kubectl'), 1 - 1 / 7);
+});
+
+test('getHotwords exports the terms when vocabulary is enabled', () => {
+  assert.deepEqual(getHotwords(config, { terms: [{ term: 'kubectl', soundsLike: ['cube control'] }] }), [
+    'kubectl',
+  ]);
+  assert.deepEqual(getHotwords({ ...config, enabled: false }, vocabulary), []);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getDefaultConfig } from '../src/config';
+import { getOutputText, parseVoiceCommand } from '../src/voice-commands';
+
+const commands = getDefaultConfig().commands;
+const keywords = ['jarvis', 'hey_claude'];
+
+test('parseVoiceCommand leaves dictation without a command alone', () => {
+  const parsed = parseVoiceCommand('Fix the failing tests in utils.', commands, keywords);
+
+  assert.deepEqual(parsed, { text: 'Fix the failing tests in utils.', command: null });
+});
+
+test('parseVoiceCommand matches a whole utterance regardless of case and punctuation', () => {
+  const parsed = parseVoiceCommand('Press Escape.', commands, keywords);
+
+  assert.equal(parsed.text, '');
+  assert.deepEqual(parsed.command, { type: 'key', key: 'Escape' });
+  assert.equal(parsed.phrase, 'press escape');
+});
+
+test('parseVoiceCommand cuts a trailing command from dictated text', () => {
+  const parsed = parseVoiceCommand("Fix the tests, don't send.", commands, keywords);
+
+  assert.equal(parsed.text, 'Fix the tests');
+  assert.equal(parsed.command?.type, 'hold');
+  assert.equal(getOutputText(parsed), 'Fix the tests');
+});
+
+test('parseVoiceCommand prefers the longest phrase', () => {
+  assert.equal(parseVoiceCommand('Redo that.', commands, keywords).phrase, 'redo that');
+  assert.equal(parseVoiceCommand('Please do not send', commands, keywords).phrase, 'do not send');
+});
+
+test('parseVoiceCommand only takes key commands as the whole utterance', () => {
+  const parsed = parseVoiceCommand('Tell me when to press escape', commands, keywords);
+
+  assert.equal(parsed.command, null);
+});
+
+test('parseVoiceCommand switches only to configured keywords', () => {
+  const parsed = parseVoiceCommand('Switch to Jarvis.', commands, keywords);
+  assert.equal(parsed.command?.type, 'keyword');
+  assert.equal(parsed.arg, 'jarvis');
+
+  // Spoken without the underscore
+  assert.equal(parseVoiceCommand('switch to hey claude', commands, keywords).arg, 'hey_claude');
+});
+
+test('parseVoiceCommand treats "switch to" with anything else as dictation', () => {
+  const parsed = parseVoiceCommand('Switch to the other branch.', commands, keywords);
+
+  assert.deepEqual(parsed, { text: 'Switch to the other branch.', command: null });
+});
+
+test('getOutputText is empty for control-only commands', () => {
+  assert.equal(getOutputText(parseVoiceCommand('Cancel that.', commands, keywords)), '');
+  assert.equal(getOutputText(parseVoiceCommand('Press tab', commands, keywords)), '');
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decodeWav, resample } from '../src/utils/wav';
+import { encodeWav } from '../src/utils/audio';
+
+/**
+ * Build a WAV file from a fmt chunk body and sample data, with optional chunks before the data
+ */
+function wav(fmt: Buffer, data: Buffer, extra: Buffer[] = [], dataSize = data.length): Buffer {
+  const chunk = (id: string, body: Buffer, size = body.length) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(size, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+  const body = Buffer.concat([chunk('fmt ', fmt), ...extra, chunk('data', data, dataSize)]);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WAVE', 8, 'ascii');
+  return Buffer.concat([riff, body]);
+}
+
+function fmtChunk(format: number, channels: number, sampleRate: number, bits: number): Buffer {
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(format, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE((sampleRate * channels * bits) / 8, 8);
+  fmt.writeUInt16LE((channels * bits) / 8, 12);
+  fmt.writeUInt16LE(bits, 14);
+  return fmt;
+}
+
+function int16(values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((v, i) => buffer.writeInt16LE(v, i * 2));
+  return buffer;
+}
+
+test('decodeWav reads what encodeWav writes', () => {
+  const decoded = decodeWav(encodeWav(int16([0, 16384, -16384, -32768]), 16000, 1));
+
+  assert.equal(decoded.sampleRate, 16000);
+  assert.equal(decoded.channels, 1);
+  assert.deepEqual(Array.from(decoded.samples), [0, 0.5, -0.5, -1]);
+});
+
+test('decodeWav downmixes stereo to mono', () => {
+  const decoded = decodeWav(wav(fmtChunk(1, 2, 44100, 16), int16([16384, 0, -16384, -16384])));
+
+  assert.equal(decoded.channels, 2);
+  assert.deepEqual(Array.from(decoded.samples), [0.25, -0.5]);
+});
+
+test('decodeWav reads 8-bit unsigned, 24-bit and float samples', () => {
+  const unsigned = decodeWav(wav(fmtChunk(1, 1, 8000, 8), Buffer.from([128, 192, 0])));
+  assert.deepEqual(Array.from(unsigned.samples), [0, 0.5, -1]);
+
+  const pcm24 = Buffer.alloc(6);
+  pcm24.writeIntLE(4194304, 0, 3);
+  pcm24.writeIntLE(-8388608, 3, 3);
+  assert.deepEqual(Array.from(decodeWav(wav(fmtChunk(1, 1, 16000, 24), pcm24)).samples), [0.5, -1]);
+
+  const float = Buffer.alloc(8);
+  float.writeFloatLE(0.25, 0);
+  float.writeFloatLE(-0.75, 4);
+  assert.deepEqual(Array.from(decodeWav(wav(fmtChunk(3, 1, 16000, 32), float)).samples), [0.25, -0.75]);
+});
+
+test('decodeWav takes the format of WAVE_FORMAT_EXTENSIBLE from the sub-format', () => {
+  const fmt = Buffer.concat([fmtChunk(0xfffe, 1, 16000, 16), Buffer.alloc(24)]);
+  fmt.writeUInt16LE(22, 16);
+  fmt.writeUInt16LE(1, 24);
+
+  assert.deepEqual(Array.from(decodeWav(wav(fmt, int16([16384]))).samples), [0.5]);
+});
+
+test('decodeWav skips other chunks, including odd-sized ones', () => {
+  const list = Buffer.concat([Buffer.from('LIST', 'ascii'), Buffer.from([3, 0, 0, 0]), Buffer.from('abc\0')]);
+
+  assert.deepEqual(Array.from(decodeWav(wav(fmtChunk(1, 1, 16000, 16), int16([-16384]), [list])).samples), [-0.5]);
+});
+
+test('decodeWav reads to the end of the file when a streamed WAV left the data size unset', () => {
+  const decoded = decodeWav(wav(fmtChunk(1, 1, 16000, 16), int16([16384, 16384]), [], 0xffffffff));
+
+  assert.equal(decoded.samples.length, 2);
+});
+
+test('decodeWav rejects files it cannot read', () => {
+  assert.throws(() => decodeWav(Buffer.from('not a wav file at all')), /Not a RIFF\/WAVE file/);
+  assert.throws(() => decodeWav(wav(fmtChunk(1, 1, 16000, 12), Buffer.alloc(4))), /Unsupported WAV encoding/);
+
+  const noData = wav(fmtChunk(1, 1, 16000, 16), Buffer.alloc(0)).subarray(0, 36);
+  assert.throws(() => decodeWav(noData), /Missing data chunk/);
+});
+
+test('resample returns the input when the rate does not change', () => {
+  const samples = new Float32Array([0.1, 0.2]);
+
+  assert.equal(resample(samples, 16000, 16000), samples);
+});
+
+test('resample changes the length by the rate ratio', () => {
+  const samples = new Float32Array(48000).fill(0.5);
+  const output = resample(samples, 48000, 16000);
+
+  assert.equal(output.length, 16000);
+  assert.ok(output.every((s) => s === 0.5));
+});
+
+test('resample interpolates between samples when upsampling', () => {
+  const output = resample(new Float32Array([0, 1]), 8000, 16000);
+
+  assert.deepEqual(Array.from(output), [0, 0.5, 1, 1]);
+});